@@ -5,17 +5,24 @@ import ResearchPanel from './ui/ResearchPanel';
 import DetailPanel from './ui/DetailPanel';
 import LegendPanel from './ui/LegendPanel';
 import SettingsPanel from './ui/SettingsPanel';
+import UsagePanel from './ui/UsagePanel';
+import InquiryPanel from './ui/InquiryPanel';
+import OntologyPanel from './ui/OntologyPanel';
+import DuplicateReviewPanel from './ui/DuplicateReviewPanel';
+import SelectionPanel from './ui/SelectionPanel';
 import Sidebar from './ui/Sidebar';
 import { usePrismStore } from './store/prismStore';
 import { db } from './db';
+import { aiManager } from './services/aiService';
 
 const App: React.FC = () => {
-  const { loadFromDb, saveToDb, aiSettings, activeProvider, providerStats } = usePrismStore();
+  const { loadFromDb, saveToDb, undo, aiSettings, activeProvider, providerStats } = usePrismStore();
 
   // Initialization Logic
   useEffect(() => {
     const init = async () => {
       await loadFromDb();
+      await aiManager.syncQuotas();
       try {
         const count = await db.nodes.count();
         if (count === 0) {
@@ -29,6 +36,22 @@ const App: React.FC = () => {
     init();
   }, []); // Run once on mount
 
+  // Ctrl/Cmd+Z reverts the last graph edit, except while typing in a field or while a request runs
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.shiftKey || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const { undoStack, activeRequest } = usePrismStore.getState();
+      if (undoStack.length === 0 || activeRequest) return;
+      e.preventDefault();
+      undo();
+      saveToDb();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, saveToDb]);
+
   return (
     <div className="relative w-screen h-screen bg-slate-50 overflow-hidden font-sans select-none">
       
@@ -61,6 +84,26 @@ const App: React.FC = () => {
         <div className="pointer-events-auto">
           <SettingsPanel />
         </div>
+
+        <div className="pointer-events-auto">
+          <UsagePanel />
+        </div>
+
+        <div className="pointer-events-auto">
+          <InquiryPanel />
+        </div>
+
+        <div className="pointer-events-auto">
+          <OntologyPanel />
+        </div>
+
+        <div className="pointer-events-auto">
+          <DuplicateReviewPanel />
+        </div>
+
+        <div className="pointer-events-auto">
+          <SelectionPanel />
+        </div>
         
       </div>
     </div>
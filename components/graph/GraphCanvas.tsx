@@ -3,23 +3,34 @@ import React, { useRef, useEffect, useMemo, useState, useCallback } from 'react'
 import ForceGraph2D, { ForceGraphMethods } from 'react-force-graph-2d';
 import * as d3 from 'd3';
 import { usePrismStore } from '../../store/prismStore';
-import { ResearchNode, SimulationNode } from '../../types/prism';
+import { ResearchNode, SimulationNode, SimulationLink } from '../../types/prism';
 import { NODE_REL_SIZE, LINK_COLOR, GRAPH_BACKGROUND } from '../../constants';
 import { paintNode, paintLink } from '../../utils/canvasRenderers';
+import { isLowConfidence, parallelCurvatures } from '../../utils/graphUtils';
+import { getGroupStyle } from '../../utils/ontology';
 
 const GraphCanvas: React.FC = () => {
   // Selectors: Atomic selection to prevent wastage
   const nodes = usePrismStore(state => state.nodes);
   const links = usePrismStore(state => state.links);
+  const pendingGraph = usePrismStore(state => state.pendingGraph);
   const selectNode = usePrismStore(state => state.selectNode);
   const selectedNode = usePrismStore(state => state.selectedNode);
   const hoveredNode = usePrismStore(state => state.hoveredNode);
+  const highlightedNodeIds = usePrismStore(state => state.highlightedNodeIds);
+  const markedNodeIds = usePrismStore(state => state.markedNodeIds);
+  const toggleMarkedNode = usePrismStore(state => state.toggleMarkedNode);
+  const clearMarkedNodes = usePrismStore(state => state.clearMarkedNodes);
+  const hideLowConfidence = usePrismStore(state => state.hideLowConfidence);
+  const ontology = usePrismStore(state => state.ontology);
   const setHoveredNode = usePrismStore(state => state.setHoveredNode);
   const setZoomLevel = usePrismStore(state => state.setZoomLevel);
   const resetSignal = usePrismStore(state => state.resetCameraSignal); 
+  const cameraFocus = usePrismStore(state => state.cameraFocus);
 
   const graphRef = useRef<ForceGraphMethods | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const simulationNodes = useRef(new Map<string, SimulationNode>()); // Last objects handed to D3, by ID
   
   const [dimensions, setDimensions] = useState({ w: window.innerWidth, h: window.innerHeight });
 
@@ -27,22 +38,52 @@ const GraphCanvas: React.FC = () => {
   // 1. DATA SANITIZATION & MEMOIZATION
   // D3 mutates objects. We guard against this pollution.
   // ---------------------------------------------------------------------------
+
+  // Streamed entities are drawn ahead of the merge, unless already on the canvas
+  const pendingIds = useMemo(() => {
+    const committed = new Set(nodes.map(n => n.id));
+    return new Set((pendingGraph?.nodes || []).map(n => n.id).filter(id => !committed.has(id)));
+  }, [nodes, pendingGraph]);
+
+  // Citations of the last grounded answer get a ring
+  const highlightedIds = useMemo(() => new Set(highlightedNodeIds), [highlightedNodeIds]);
+
+  // Shift-clicked nodes, for merge & split
+  const markedIds = useMemo(() => new Set(markedNodeIds), [markedNodeIds]);
+
   const graphData = useMemo(() => {
-    // Deep clone nodes to keep Store immutable
-    const rawNodes = nodes.map(n => ({ ...n }));
-    const nodeIds = new Set(rawNodes.map(n => n.id));
+    const pendingNodes = (pendingGraph?.nodes || []).filter(n => pendingIds.has(n.id));
+
+    // Deep clone nodes to keep Store immutable, carrying over simulated
+    // positions so incremental updates don't re-scatter the layout
+    const previous = simulationNodes.current;
+    const rawNodes = [...nodes, ...pendingNodes].map(n => {
+      const sim = previous.get(n.id);
+      return sim
+        ? { ...n, x: sim.x, y: sim.y, vx: sim.vx, vy: sim.vy, fx: sim.fx, fy: sim.fy }
+        : { ...n };
+    });
+    // Hidden nodes keep their last position for when the filter is lifted
+    simulationNodes.current = new Map(rawNodes.map(n => [n.id, n as SimulationNode]));
+    const visibleNodes = hideLowConfidence ? rawNodes.filter(n => !isLowConfidence(n)) : rawNodes;
+    const nodeIds = new Set(visibleNodes.map(n => n.id));
 
-    // Filter broken links
-    const validLinks = links
+    // Filter broken (and filtered-out) links
+    const validLinks = [...links, ...(pendingGraph?.links || [])]
       .map(l => ({
         ...l,
         source: typeof l.source === 'object' ? (l.source as any).id : l.source,
         target: typeof l.target === 'object' ? (l.target as any).id : l.target
       }))
-      .filter(l => nodeIds.has(l.source) && nodeIds.has(l.target));
+      .filter(l => nodeIds.has(l.source) && nodeIds.has(l.target))
+      .filter(l => !hideLowConfidence || !isLowConfidence(l));
+
+    // Parallel edges between the same two nodes are drawn as separate curves
+    const curvatures = parallelCurvatures(validLinks);
+    const drawnLinks: SimulationLink[] = validLinks.map((l, idx) => ({ ...l, curvature: curvatures[idx] }));
 
-    return { nodes: rawNodes, links: validLinks };
-  }, [nodes, links]);
+    return { nodes: visibleNodes, links: drawnLinks };
+  }, [nodes, links, pendingGraph, pendingIds, hideLowConfidence]);
 
   // ---------------------------------------------------------------------------
   // 2. RESPONSIVE LAYOUT
@@ -74,6 +115,14 @@ const GraphCanvas: React.FC = () => {
       }
   }, [resetSignal]);
 
+  // Explicit Focus Requests (e.g. after expanding a node)
+  useEffect(() => {
+      const target = cameraFocus && simulationNodes.current.get(cameraFocus.nodeId);
+      if (target && graphRef.current) {
+          graphRef.current.centerAt(target.x, target.y, 800);
+      }
+  }, [cameraFocus?.signal]);
+
   // ---------------------------------------------------------------------------
   // 4. PHYSICS ENGINE CONFIGURATION
   // ---------------------------------------------------------------------------
@@ -102,11 +151,11 @@ const GraphCanvas: React.FC = () => {
   // ---------------------------------------------------------------------------
   
   const handleNodePaint = useCallback((node: any, ctx: CanvasRenderingContext2D, scale: number) => {
-    paintNode(node as SimulationNode, ctx, scale, selectedNode?.id, hoveredNode?.id);
-  }, [selectedNode?.id, hoveredNode?.id]);
+    paintNode(node as SimulationNode, ctx, scale, selectedNode?.id, hoveredNode?.id, pendingIds.has(node.id), highlightedIds.has(node.id), isLowConfidence(node), getGroupStyle(ontology, node.groupLabel), markedIds.has(node.id));
+  }, [selectedNode?.id, hoveredNode?.id, pendingIds, highlightedIds, ontology, markedIds]);
 
   const handleLinkPaint = useCallback((link: any, ctx: CanvasRenderingContext2D, scale: number) => {
-    paintLink(link, ctx, scale);
+    paintLink(link as SimulationLink, ctx, scale, isLowConfidence(link));
   }, []);
 
   return (
@@ -124,9 +173,10 @@ const GraphCanvas: React.FC = () => {
         // Rendering Delegates
         nodeCanvasObject={handleNodePaint}
         linkCanvasObject={handleLinkPaint}
+        linkCurvature="curvature" // Keeps hover hit areas on the drawn curves
         nodePointerAreaPaint={(node, color, ctx) => {
           // Hitbox definition
-          const r = Math.sqrt((node as ResearchNode).metrics.significance) * NODE_REL_SIZE;
+          const r = Math.sqrt((node as ResearchNode).metrics?.significance || 1) * NODE_REL_SIZE;
           ctx.fillStyle = color;
           ctx.beginPath();
           ctx.arc(node.x!, node.y!, r + 10, 0, 2 * Math.PI, false); 
@@ -134,8 +184,15 @@ const GraphCanvas: React.FC = () => {
         }}
 
         // Interaction Handlers
-        onNodeClick={(node) => selectNode(node as ResearchNode)}
-        onBackgroundClick={() => selectNode(null)}
+        onNodeClick={(node, event) => {
+          // Shift (or Ctrl/Cmd) adds to the multi-selection instead of opening details
+          if (event.shiftKey || event.ctrlKey || event.metaKey) toggleMarkedNode((node as ResearchNode).id);
+          else selectNode(node as ResearchNode);
+        }}
+        onBackgroundClick={() => {
+          selectNode(null);
+          clearMarkedNodes();
+        }}
         onNodeHover={(node) => setHoveredNode(node as ResearchNode || null)}
         onZoom={(t) => setZoomLevel(t.k)}
         
@@ -25,3 +25,9 @@ export const GROUP_SHAPES: Record<string, string> = {
 
 export const GRAPH_BACKGROUND = '#f8fafc'; // Slate 50 (Near White)
 export const LINK_COLOR = '#cbd5e1'; // Slate 300 (Subtle structure)
+export const LINK_ARROW_SIZE = 5; // Arrowhead length in screen pixels
+export const PENDING_NODE_ALPHA = 0.45; // Streamed entities awaiting integration
+export const HIGHLIGHT_COLOR = '#f59e0b'; // Amber 500 (Nodes cited by an answer)
+export const MARKED_COLOR = '#7c3aed'; // Violet 600 (Multi-selection for merge & split)
+export const LOW_CONFIDENCE_THRESHOLD = 0.5; // Below this, entities render as unverified
+export const LOW_CONFIDENCE_ALPHA = 0.5;
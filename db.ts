@@ -1,10 +1,17 @@
 import Dexie, { Table } from 'dexie';
-import { ResearchNode, OptimizedConnection } from './types/prism';
+import { ResearchNode, OptimizedConnection, QuotaPolicy, UsageEntry, CachedResponse, PromptTemplate, Ontology, MergeSuggestion, DistinctPair } from './types/prism';
 
 // Use functional initialization to avoid TypeScript class inheritance issues with Dexie
 const db = new Dexie('prism_db') as Dexie & {
   nodes: Table<ResearchNode, string>;
   links: Table<OptimizedConnection, number>;
+  usage: Table<UsageEntry, number>;
+  quotaPolicies: Table<QuotaPolicy, string>;
+  responseCache: Table<CachedResponse, string>;
+  promptTemplates: Table<PromptTemplate, number>;
+  ontologies: Table<Ontology, string>;
+  mergeSuggestions: Table<MergeSuggestion, string>;
+  distinctPairs: Table<DistinctPair, string>;
 };
 
 db.version(1).stores({
@@ -12,4 +19,31 @@ db.version(1).stores({
   links: '++id, source, target'
 });
 
-export { db };
\ No newline at end of file
+// v2: Persisted quota ledger
+db.version(2).stores({
+  usage: '++id, provider, timestamp, sessionId',
+  quotaPolicies: 'provider'
+});
+
+// v3: Response cache
+db.version(3).stores({
+  responseCache: 'key, createdAt'
+});
+
+// v4: Versioned prompt templates
+db.version(4).stores({
+  promptTemplates: '++id, action, [action+version]'
+});
+
+// v5: User-defined ontologies
+db.version(5).stores({
+  ontologies: 'name, activatedAt'
+});
+
+// v6: Duplicate review queue & remembered "distinct" decisions
+db.version(6).stores({
+  mergeSuggestions: 'id, keepId, mergeId',
+  distinctPairs: 'key'
+});
+
+export { db };
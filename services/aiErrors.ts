@@ -0,0 +1,184 @@
+import { ApiError } from "@google/genai";
+import { AIAttempt } from '../types/prism';
+
+// -----------------------------------------------------------------------------
+// ERROR TAXONOMY
+// Every provider failure is normalized into one of these classes so routing,
+// retries and status reporting can react to *why* a call failed.
+// -----------------------------------------------------------------------------
+
+// ABORTED is not a failure: the user cancelled and nothing further should run.
+// UNAVAILABLE: the provider cannot serve this request at all (e.g. no replay fixture).
+export type AIErrorKind = 'AUTH' | 'RATE_LIMITED' | 'QUOTA' | 'PARSE' | 'NETWORK' | 'TIMEOUT' | 'ABORTED' | 'UNAVAILABLE';
+
+export class AIProviderError extends Error {
+  readonly kind: AIErrorKind;
+  readonly provider: string;
+  readonly status?: number; // HTTP status, when there was one
+  readonly retryAfterMs?: number; // Server-requested delay (Retry-After)
+
+  constructor(
+    kind: AIErrorKind,
+    provider: string,
+    message: string,
+    details: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(`[${provider}] ${kind}: ${message}`, { cause: details.cause });
+    this.name = 'AIProviderError';
+    this.kind = kind;
+    this.provider = provider;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/**
+ * Raised by the AIServiceManager when every step of an execution plan failed.
+ * Carries the full attempt trace for diagnostics.
+ */
+export class AIExecutionError extends Error {
+  readonly trace: AIAttempt[];
+
+  constructor(message: string, trace: AIAttempt[]) {
+    super(message);
+    this.name = 'AIExecutionError';
+    this.trace = trace;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// RETRY POLICY
+// Auth and quota failures will not fix themselves; transient ones get backoff.
+// -----------------------------------------------------------------------------
+
+export const RETRY_POLICY: Record<AIErrorKind, { retries: number; baseDelayMs: number }> = {
+  AUTH: { retries: 0, baseDelayMs: 0 },
+  QUOTA: { retries: 0, baseDelayMs: 0 },
+  PARSE: { retries: 1, baseDelayMs: 500 },
+  RATE_LIMITED: { retries: 3, baseDelayMs: 2000 },
+  NETWORK: { retries: 2, baseDelayMs: 1000 },
+  TIMEOUT: { retries: 1, baseDelayMs: 1000 },
+  ABORTED: { retries: 0, baseDelayMs: 0 },
+  UNAVAILABLE: { retries: 0, baseDelayMs: 0 }
+};
+
+export const MAX_BACKOFF_MS = 30000;
+export const REQUEST_TIMEOUT_MS = 90000;
+
+/**
+ * Combines the caller's cancellation signal with the per-request timeout.
+ */
+export const requestSignal = (signal?: AbortSignal): AbortSignal => {
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof AIProviderError
+    ? error.kind === 'ABORTED'
+    : error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export const parseRetryAfter = (header: string | null | undefined): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Vendors signal "out of credit" on 429 as well; the body tells them apart
+const QUOTA_PATTERN = /quota|insufficient|billing|credit|exceeded your current/i;
+
+/**
+ * Maps a non-2xx HTTP response to an error class.
+ */
+export const classifyHttpError = (
+  provider: string,
+  status: number,
+  body: string,
+  retryAfter?: string | null
+): AIProviderError => {
+  const details = { status, retryAfterMs: parseRetryAfter(retryAfter) };
+  const snippet = body.slice(0, 200) || `HTTP ${status}`;
+
+  if (status === 401 || status === 403) return new AIProviderError('AUTH', provider, snippet, details);
+  if (status === 402) return new AIProviderError('QUOTA', provider, snippet, details);
+  if (status === 429) {
+    return QUOTA_PATTERN.test(body)
+      ? new AIProviderError('QUOTA', provider, snippet, details)
+      : new AIProviderError('RATE_LIMITED', provider, snippet, details);
+  }
+  if (status === 408 || status === 504) return new AIProviderError('TIMEOUT', provider, snippet, details);
+  return new AIProviderError('NETWORK', provider, snippet, details);
+};
+
+/**
+ * Normalizes anything thrown during a provider call into an AIProviderError.
+ */
+export const classifyError = (provider: string, error: unknown, signal?: AbortSignal): AIProviderError => {
+  if (error instanceof AIProviderError) return error;
+
+  // SDKs wrap aborts inconsistently; the signal is the source of truth
+  if (signal?.aborted || isAbortError(error)) {
+    return new AIProviderError('ABORTED', provider, 'Request cancelled', { cause: error });
+  }
+
+  if (error instanceof ApiError) {
+    return classifyHttpError(provider, error.status, error.message);
+  }
+  if (error instanceof SyntaxError) {
+    return new AIProviderError('PARSE', provider, error.message, { cause: error });
+  }
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new AIProviderError('TIMEOUT', provider, 'Request timed out', { cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new AIProviderError('NETWORK', provider, message, { cause: error });
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs a provider call under RETRY_POLICY with exponential backoff.
+ * A server-supplied Retry-After always wins over the computed delay.
+ */
+export const withRetry = async <T>(
+  provider: string,
+  task: () => Promise<T>,
+  onRetry?: (error: AIProviderError, attempt: number, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      const error = classifyError(provider, e, signal);
+      const policy = RETRY_POLICY[error.kind];
+      if (attempt >= policy.retries) throw error;
+
+      const backoff = policy.baseDelayMs * 2 ** attempt + Math.random() * 250;
+      const delayMs = Math.min(MAX_BACKOFF_MS, error.retryAfterMs ?? backoff);
+      onRetry?.(error, attempt + 1, delayMs);
+      try {
+        await sleep(delayMs, signal);
+      } catch (abortReason) {
+        throw classifyError(provider, abortReason, signal);
+      }
+    }
+  }
+};
@@ -1,13 +1,45 @@
 
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { ResearchNode, GraphData, AIProvider, AIProviderStats, AIModel } from '../types/prism';
+import { GoogleGenAI, Type, Schema, GenerateContentResponse } from "@google/genai";
+import { ResearchNode, EvidenceSource, Verification, ClaimVerdict, GraphData, GraphAnswer, GroundedAnswer, AIAnswerResult, AIVerificationResult, CachedResponse, ValidationIssue, AIProvider, AIProviderStats, AIModel, AITokenUsage, AICredentialSource, AIProviderRegistration, AIProviderRegistrationOptions, AIGenerationResult, AIRequestOptions, QuotaWindow, AISettings, AIAttempt, AIModelType, AppStatus, PromptAction, Ontology, OptimizedConnection, SummaryConflict, RelationMapping, AIRelationResult } from '../types/prism';
+import { GraphStreamParser } from '../utils/graphStream';
+import { linkKey, consolidateGraphData, getProvenance, isWebUrl } from '../utils/graphUtils';
+import { validateGraphData, validateResponse, describeSchema } from '../utils/graphValidation';
+import { applyOntology, describeOntology, normalizeRelation } from '../utils/ontology';
+import { relationVocabulary, findUnresolvedRelations, normalizeRelations } from '../utils/relations';
+import { cleanInput, sanitizeInput, quoteInput, UNTRUSTED_DATA_NOTICE } from '../utils/promptHygiene';
 import { usePrismStore } from '../store/prismStore';
+import { quotaLedger } from './quotaLedger';
+import { responseCache, buildCacheKey, normalizePrompt } from './responseCache';
+import { providerFixtures } from './providerFixtures';
+import { promptLibrary, renderTemplate, PromptVariables } from './promptTemplates';
+import { AIProviderError, AIExecutionError, classifyError, classifyHttpError, withRetry, requestSignal, isAbortError } from './aiErrors';
+import { v4 as uuidv4 } from 'uuid';
 
 // -----------------------------------------------------------------------------
 // SCHEMA DEFINITIONS
-// Rigid structure enforcement for the LLM.
+// Rigid structure enforcement for the LLM. Gemini enforces it natively; every
+// other provider's output is validated against it (see utils/graphValidation).
+// Defaults are what validation uses to repair missing fields.
 // -----------------------------------------------------------------------------
 
+// Optional on nodes and links: references that let analysts audit a claim
+const evidenceSchema: Schema = {
+  type: Type.ARRAY,
+  description: "References supporting the claim; omit rather than invent",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      url: { type: Type.STRING },
+      quote: { type: Type.STRING, description: "Short supporting excerpt" }
+    },
+    required: ["title"]
+  }
+};
+
+// Optional: the model's own certainty that a node or link is accurate
+const confidenceSchema: Schema = { type: Type.NUMBER, minimum: 0, maximum: 1, description: "0-1: how sure you are this is accurate" };
+
 const graphResponseSchema: Schema = {
   type: Type.OBJECT,
   properties: {
@@ -18,13 +50,15 @@ const graphResponseSchema: Schema = {
         properties: {
           id: { type: Type.STRING, description: "Snake case unique ID (e.g. 'cold_war')" },
           label: { type: Type.STRING },
-          type: { type: Type.STRING },
-          summary: { type: Type.STRING },
-          groupLabel: { type: Type.STRING, description: "Person, Organization, Event, Location, Concept, Technology" },
+          type: { type: Type.STRING, default: "Entity" },
+          summary: { type: Type.STRING, default: "" },
+          groupLabel: { type: Type.STRING, default: "Concept" }, // Vocabulary comes from the active ontology
           tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+          sources: evidenceSchema,
+          confidence: confidenceSchema,
           metrics: {
             type: Type.OBJECT,
-            properties: { significance: { type: Type.NUMBER } },
+            properties: { significance: { type: Type.NUMBER, minimum: 1, maximum: 10, default: 5 } },
             required: ["significance"]
           }
         },
@@ -33,13 +67,16 @@ const graphResponseSchema: Schema = {
     },
     links: {
       type: Type.ARRAY,
+      default: [],
       items: {
         type: Type.OBJECT,
         properties: {
           source: { type: Type.STRING },
           target: { type: Type.STRING },
-          relation: { type: Type.STRING },
-          weight: { type: Type.NUMBER }
+          relation: { type: Type.STRING, default: "RELATED_TO" },
+          weight: { type: Type.NUMBER, minimum: 0, maximum: 1, default: 0.5 },
+          sources: evidenceSchema,
+          confidence: confidenceSchema
         },
         required: ["source", "target", "relation", "weight"]
       }
@@ -48,18 +85,110 @@ const graphResponseSchema: Schema = {
   required: ["nodes", "links"]
 };
 
+// Answer-only mode: prose grounded in the supplied subgraph, plus the node IDs it relies on
+const answerResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING },
+    citations: { type: Type.ARRAY, items: { type: Type.STRING }, description: "IDs of the context nodes the answer relies on", default: [] }
+  },
+  required: ["answer", "citations"]
+};
+
+// Verification mode: a second model's verdict on each generated claim
+const verificationResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    verdicts: {
+      type: Type.ARRAY,
+      default: [],
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          claim: { type: Type.STRING, description: "The claim key exactly as given" },
+          verdict: { type: Type.STRING, format: "enum", enum: ["CONFIRMED", "DISPUTED", "UNCERTAIN"], default: "UNCERTAIN" },
+          confidence: { type: Type.NUMBER, minimum: 0, maximum: 1, default: 0.5 },
+          note: { type: Type.STRING }
+        },
+        required: ["claim", "verdict", "confidence"]
+      }
+    }
+  },
+  required: ["verdicts"]
+};
+
+// Relation classifier: one predicate per unknown wording
+const relationResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    mappings: {
+      type: Type.ARRAY,
+      default: [],
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          relation: { type: Type.STRING, description: "The wording exactly as given" },
+          predicate: { type: Type.STRING, description: "A predicate from the list, or OTHER" }
+        },
+        required: ["relation", "predicate"]
+      }
+    }
+  },
+  required: ["mappings"]
+};
+
+/**
+ * The graph schema narrowed to an ontology: its groups, types and relations
+ * become field descriptions, and unmatched groups default to its fallback.
+ */
+const buildGraphSchema = (ontology: Ontology): Schema => {
+  const schema = structuredClone(graphResponseSchema);
+  const node = schema.properties!.nodes.items!.properties!;
+  const link = schema.properties!.links.items!.properties!;
+  node.groupLabel = { ...node.groupLabel, description: `One of: ${ontology.groups.map(g => g.label).join(', ')}`, default: ontology.fallbackGroup };
+  const typed = ontology.groups.filter(g => g.types.length > 0);
+  if (typed.length) node.type = { ...node.type, description: `Per group: ${typed.map(g => `${g.label}: ${g.types.join(', ')}`).join('; ')}` };
+  if (ontology.relations.length) link.relation = { ...link.relation, description: `One of: ${ontology.relations.join(', ')}` };
+  return schema;
+};
+
+// Prompt suffixes for providers without native structured output
+const ANSWER_INSTRUCTION = `Respond strictly in JSON matching this schema: ${describeSchema(answerResponseSchema)}`;
+const VERIFICATION_INSTRUCTION = `Respond strictly in JSON matching this schema: ${describeSchema(verificationResponseSchema)}`;
+const RELATION_INSTRUCTION = `Respond strictly in JSON matching this schema: ${describeSchema(relationResponseSchema)}`;
+
 // -----------------------------------------------------------------------------
 // DATA SANITIZATION
 // Cleanse the AI's output before it touches the State.
 // -----------------------------------------------------------------------------
 
-const sanitizeGraphData = (data: GraphData): GraphData => {
-  const cleanId = (id: string) => id.toLowerCase().trim().replace(/\s+/g, '_');
-  
+const cleanId = (id: string) => id.toLowerCase().trim().replace(/\s+/g, '_');
+
+// Non-web URLs are stripped (see isWebUrl)
+const cleanSources = (sources?: EvidenceSource[]): EvidenceSource[] | undefined => {
+  const cleaned = (sources || [])
+    .map(({ title, url, quote }) => ({
+      title: title.trim(),
+      ...(isWebUrl(url) ? { url: url.trim() } : {}),
+      ...(quote?.trim() ? { quote: quote.trim() } : {})
+    }))
+    .filter(source => source.title);
+  return cleaned.length > 0 ? cleaned : undefined;
+};
+
+// Models often wrap their JSON in markdown fences despite instructions
+const stripFences = (content: string) => content.replace(/```json\n?|\n?```/g, "").trim();
+
+// Off-ontology entities are mapped or dropped first; what changed is reported with the validation issues
+export const sanitizeGraphData = (raw: GraphData, ontology: Ontology, issues: ValidationIssue[] = []): GraphData => {
+  const { data, issues: ontologyIssues } = applyOntology(raw, ontology);
+  issues.push(...ontologyIssues);
+
   const nodes = data.nodes.map(n => ({
     ...n,
     id: cleanId(n.id),
-    tags: n.tags || []
+    tags: n.tags || [],
+    sources: cleanSources(n.sources)
   }));
 
   // Deduplicate within the response batch
@@ -70,29 +199,234 @@ const sanitizeGraphData = (data: GraphData): GraphData => {
   const links = data.links.map(l => ({
     ...l,
     source: cleanId(l.source as string),
-    target: cleanId(l.target as string)
+    target: cleanId(l.target as string),
+    sources: cleanSources(l.sources)
   })).filter(l => nodeIds.has(l.source as string) && nodeIds.has(l.target as string));
 
   return { nodes: uniqueNodes, links };
 };
 
+/**
+ * Raw model text -> validated, sanitized graph.
+ */
+const parseGraphContent = (content: string, schema: Schema, ontology: Ontology): { data: GraphData; issues: ValidationIssue[] } => {
+  const { data, issues } = validateGraphData(JSON.parse(stripFences(content)), schema);
+  const sanitized = sanitizeGraphData(data, ontology, issues);
+  if (issues.length > 0) console.warn(`[Validation]: ${issues.length} issue(s) in provider output`, issues);
+  return { data: sanitized, issues };
+};
+
+/**
+ * Raw model text -> validated answer with normalized, de-duplicated citations.
+ */
+const parseAnswerContent = (content: string): { answer: GraphAnswer } => {
+  const { data, issues } = validateResponse<GraphAnswer>(JSON.parse(stripFences(content)), answerResponseSchema);
+  if (issues.length > 0) console.warn(`[Validation]: ${issues.length} issue(s) in provider answer`, issues);
+  return { answer: { answer: data.answer.trim(), citations: Array.from(new Set(data.citations.map(cleanId))) } };
+};
+
+/**
+ * Raw model text -> validated verdicts. Claim keys are matched later,
+ * case-insensitively, against the claims that were sent.
+ */
+const parseVerificationContent = (content: string): { verdicts: ClaimVerdict[] } => {
+  const { data, issues } = validateResponse<{ verdicts: ClaimVerdict[] }>(JSON.parse(stripFences(content)), verificationResponseSchema);
+  if (issues.length > 0) console.warn(`[Validation]: ${issues.length} issue(s) in provider verdicts`, issues);
+  return { verdicts: data.verdicts };
+};
+
+/**
+ * Raw model text -> validated relation mappings.
+ */
+const parseRelationContent = (content: string): { mappings: RelationMapping[] } => {
+  const { data, issues } = validateResponse<{ mappings: RelationMapping[] }>(JSON.parse(stripFences(content)), relationResponseSchema);
+  if (issues.length > 0) console.warn(`[Validation]: ${issues.length} issue(s) in relation mappings`, issues);
+  return { mappings: data.mappings };
+};
+
+// -----------------------------------------------------------------------------
+// RESPONSE FORMATS
+// What a provider is asked to return, and how the raw text is read back.
+// Providers build vendor payloads; formats own the schema and the parsing.
+// -----------------------------------------------------------------------------
+
+interface ResponseFormat<T> {
+  schema: Schema; // Native structured output (Gemini)
+  instruction: string; // Prompt suffix for everyone else
+  system?: string; // Overrides the provider's default system prompt
+  parse: (content: string) => T;
+}
+
+type ProviderReply = { model: string; usage?: AITokenUsage };
+
+type GraphFormat = ResponseFormat<{ data: GraphData; issues: ValidationIssue[] }>;
+
+// One format per ontology object; the store swaps the object when the ontology changes
+const graphFormats = new WeakMap<Ontology, GraphFormat>();
+
+const graphFormat = (ontology: Ontology): GraphFormat => {
+  let format = graphFormats.get(ontology);
+  if (!format) {
+    const schema = buildGraphSchema(ontology);
+    format = {
+      schema,
+      instruction: `Respond strictly in JSON matching this schema: ${describeSchema(schema)}\n${describeOntology(ontology)}`,
+      parse: (content) => parseGraphContent(content, schema, ontology)
+    };
+    graphFormats.set(ontology, format);
+  }
+  return format;
+};
+
+const ANSWER_FORMAT: ResponseFormat<{ answer: GraphAnswer }> = {
+  schema: answerResponseSchema,
+  instruction: ANSWER_INSTRUCTION,
+  system: "You answer questions about a knowledge graph using only the context provided. Return ONLY JSON.",
+  parse: parseAnswerContent
+};
+
+const VERIFICATION_FORMAT: ResponseFormat<{ verdicts: ClaimVerdict[] }> = {
+  schema: verificationResponseSchema,
+  instruction: VERIFICATION_INSTRUCTION,
+  system: "You are a meticulous fact-checker. Judge each claim independently. Return ONLY JSON.",
+  parse: parseVerificationContent
+};
+
+const RELATION_FORMAT: ResponseFormat<{ mappings: RelationMapping[] }> = {
+  schema: relationResponseSchema,
+  instruction: RELATION_INSTRUCTION,
+  system: "You normalize knowledge-graph relations to a controlled vocabulary. Return ONLY JSON.",
+  parse: parseRelationContent
+};
+
+// -----------------------------------------------------------------------------
+// TOKEN ACCOUNTING
+// Normalizes the different `usage` shapes returned by each vendor.
+// -----------------------------------------------------------------------------
+
+// Rough chars-per-token ratio, used only when a response carries no usage block
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const extractUsage = (data: any): AITokenUsage | null => {
+  const usage = data?.usage;
+  if (!usage) return null;
+
+  // OpenAI-compatible (OpenAI, Grok, DeepSeek, local servers)
+  if (typeof usage.prompt_tokens === 'number') {
+    return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens || 0 };
+  }
+  // Anthropic
+  if (typeof usage.input_tokens === 'number') {
+    return { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens || 0 };
+  }
+  return null;
+};
+
+const extractGeminiUsage = (response: GenerateContentResponse): AITokenUsage | null => {
+  const meta = response.usageMetadata;
+  if (!meta || typeof meta.promptTokenCount !== 'number') return null;
+  return {
+    promptTokens: meta.promptTokenCount,
+    // Thinking models bill their reasoning tokens as output
+    completionTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0)
+  };
+};
+
+// -----------------------------------------------------------------------------
+// STREAMING
+// Server-Sent Events decoding for the OpenAI-compatible and Anthropic APIs.
+// -----------------------------------------------------------------------------
+
+/**
+ * Drains an SSE response body, reporting the accumulated text after every
+ * delta. Usage arrives in the final chunk (OpenAI `include_usage`) or split
+ * across `message_start` / `message_delta` (Anthropic). A malformed event
+ * fails the read as a PARSE error rather than silently losing a delta.
+ */
+const readEventStream = async (provider: string, res: Response, onText?: (text: string) => void) => {
+  if (!res.body) throw new Error("Streaming response has no body");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let content = "";
+  let usage: AITokenUsage | null = null;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    // Keep the trailing partial line for the next read
+    const lines = buffer.split('\n');
+    buffer = done ? "" : lines.pop() || "";
+
+    for (const line of lines) {
+      const data = line.startsWith('data:') ? line.slice(5).trim() : "";
+      if (!data || data === '[DONE]') continue;
+
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch (e) {
+        throw new AIProviderError('PARSE', provider, `Malformed stream event: ${data.slice(0, 80)}`, { cause: e });
+      }
+      const delta = event.choices?.[0]?.delta?.content
+        ?? (event.type === 'content_block_delta' ? event.delta?.text : undefined);
+      if (delta) {
+        content += delta;
+        onText?.(content);
+      }
+
+      if (event.type === 'message_start') {
+        usage = extractUsage(event.message) || usage;
+      } else if (event.type === 'message_delta' && event.usage) {
+        usage = { promptTokens: usage?.promptTokens || 0, completionTokens: event.usage.output_tokens || 0 };
+      } else {
+        usage = extractUsage(event) || usage;
+      }
+    }
+
+    if (done) return { content, usage };
+  }
+};
+
 // -----------------------------------------------------------------------------
 // ABSTRACT BASE PROVIDER
 // The blueprint for all intelligence sources.
 // -----------------------------------------------------------------------------
 
-abstract class BaseAIProvider implements AIProvider {
+const RATE_LIMIT_COOLDOWN_MS = 60000; // When the server gives no Retry-After
+const ERROR_COOLDOWN_MS = 120000; // Network/timeout failures after retries
+const AUTH_COOLDOWN_MS = 600000; // Rejected keys; a new key lifts it at once
+const DEFAULT_TEMPERATURE = 0.3; // Low: favours stable, reproducible graphs
+
+type ProviderHealth = {
+  status: 'RATE_LIMITED' | 'ERROR' | 'EXHAUSTED';
+  until?: number; // EPOCH. Undefined = until the next success or reset
+  reason: string;
+  credential?: string; // AUTH: the rejected key; health clears once the key changes
+};
+
+export abstract class BaseAIProvider implements AIProvider {
   abstract name: string;
   abstract models: AIModel[];
+  abstract credentials: AICredentialSource;
   protected activeModelId: string = '';
+  protected requiresApiKey = true; // Self-hosted endpoints may run without auth
+  private health: ProviderHealth | null = null;
 
   getStats(): AIProviderStats {
+    const health = this.currentHealth();
     let totalRemaining = 0;
     let totalMax = 0;
+    let promptTokens = 0;
+    let completionTokens = 0;
     
     this.models.forEach(m => {
       totalRemaining += m.remainingTokens;
       totalMax += m.maxTokens;
+      promptTokens += m.promptTokens || 0;
+      completionTokens += m.completionTokens || 0;
     });
 
     return {
@@ -100,64 +434,179 @@ abstract class BaseAIProvider implements AIProvider {
       activeModel: this.activeModelId || (this.models[0]?.id || 'unknown'),
       totalRemaining,
       totalMax,
+      promptTokens,
+      completionTokens,
       models: this.models,
-      status: totalRemaining > 0 ? 'ACTIVE' : 'EXHAUSTED'
+      status: health ? health.status : (totalRemaining > 0 ? 'ACTIVE' : 'EXHAUSTED'),
+      statusReason: health?.reason
     };
   }
 
+  // Cooldowns lapse with time; a rejected key also lapses when the key is replaced
+  private currentHealth(): ProviderHealth | null {
+    const health = this.health;
+    if (!health || (health.until && health.until <= Date.now())) return null;
+    if (health.credential !== undefined && health.credential !== (this.credentials() || '')) return null;
+    return health;
+  }
+
   resetCycle() { 
-    this.models.forEach(m => m.remainingTokens = m.maxTokens);
+    this.health = null;
+    this.models.forEach(m => {
+      m.promptTokens = 0;
+      m.completionTokens = 0;
+      m.remainingTokens = m.maxTokens;
+    });
   }
 
-  protected deductTokens(amount: number, modelId: string) {
+  setModelBudget(modelId: string, maxTokens: number) {
+    const model = this.models.find(m => m.id === modelId);
+    if (!model) return;
+    model.maxTokens = Math.max(0, maxTokens);
+    this.recomputeRemaining(model);
+  }
+
+  /**
+   * Charges one answered attempt, whether or not its output is usable: a
+   * reply that fails to parse and is retried was still billed.
+   */
+  protected bill(usage: AITokenUsage, modelId: string, label?: string) {
+    quotaLedger.record(this.name, modelId, usage, label)
+      .catch(e => console.error(`[${this.name}] Failed to record usage`, e));
     const model = this.models.find(m => m.id === modelId);
     if (model) {
-      model.remainingTokens = Math.max(0, model.remainingTokens - amount);
+      model.promptTokens = (model.promptTokens || 0) + usage.promptTokens;
+      model.completionTokens = (model.completionTokens || 0) + usage.completionTokens;
+      this.recomputeRemaining(model);
+    }
+  }
+
+  private recomputeRemaining(model: AIModel) {
+    const used = (model.promptTokens || 0) + (model.completionTokens || 0);
+    model.remainingTokens = Math.max(0, model.maxTokens - used);
+  }
+
+  /**
+   * One provider round-trip in the requested response format. Concrete
+   * providers only build the vendor payload.
+   */
+  protected abstract complete<T>(prompt: string, modelId: string | undefined, options: AIRequestOptions, format: ResponseFormat<T>): Promise<T & ProviderReply>;
+
+  generateGraph(prompt: string, modelId?: string, options: AIRequestOptions = {}): Promise<AIGenerationResult> {
+    const format = graphFormat(usePrismStore.getState().ontology);
+    return this.complete(prompt, modelId, options, options.system ? { ...format, system: options.system } : format);
+  }
+
+  generateAnswer(prompt: string, modelId?: string, options: AIRequestOptions = {}): Promise<AIAnswerResult> {
+    return this.complete(prompt, modelId, options, ANSWER_FORMAT);
+  }
+
+  verifyClaims(prompt: string, modelId?: string, options: AIRequestOptions = {}): Promise<AIVerificationResult> {
+    return this.complete(prompt, modelId, options, VERIFICATION_FORMAT);
+  }
+
+  classifyRelations(prompt: string, modelId?: string, options: AIRequestOptions = {}): Promise<AIRelationResult> {
+    return this.complete(prompt, modelId, options, RELATION_FORMAT);
+  }
+
+  /**
+   * Runs a provider call under the retry policy and keeps the reported
+   * status in sync with the outcome.
+   */
+  protected async guardedCall<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    try {
+      const result = await withRetry(this.name, task, (error, attempt, delayMs) => {
+        if (error.kind === 'RATE_LIMITED') this.markUnhealthy(error);
+        console.warn(`[${this.name}] ${error.kind} on attempt ${attempt}. Retrying in ${Math.round(delayMs)}ms.`);
+      }, signal);
+      this.health = null;
+      return result;
+    } catch (e) {
+      const error = classifyError(this.name, e, signal);
+      this.markUnhealthy(error);
+      throw error;
+    }
+  }
+
+  protected markUnhealthy(error: AIProviderError) {
+    const reason = error.message;
+    switch (error.kind) {
+      case 'RATE_LIMITED':
+        this.health = { status: 'RATE_LIMITED', until: Date.now() + (error.retryAfterMs ?? RATE_LIMIT_COOLDOWN_MS), reason };
+        break;
+      case 'QUOTA':
+        this.health = { status: 'EXHAUSTED', reason };
+        break;
+      case 'AUTH':
+        this.health = { status: 'ERROR', until: Date.now() + AUTH_COOLDOWN_MS, reason, credential: this.credentials() || '' };
+        break;
+      case 'NETWORK':
+      case 'TIMEOUT':
+        this.health = { status: 'ERROR', until: Date.now() + ERROR_COOLDOWN_MS, reason };
+        break;
+      case 'PARSE':
+      case 'ABORTED':
+      case 'UNAVAILABLE':
+        break; // Bad model output or a user cancel says nothing about provider health
     }
   }
 
-  abstract generateGraph(prompt: string, modelId?: string): Promise<GraphData>;
+  /**
+   * RECORD mode: keeps the raw exchange as a replayable fixture, under the
+   * system prompt it ran with. Called only once the response has parsed.
+   */
+  protected captureFixture(prompt: string, system: string | undefined, model: string, request: unknown, response: string, usage?: AITokenUsage) {
+    if (usePrismStore.getState().aiSettings.providerMode !== 'RECORD') return;
+    providerFixtures.add({ provider: this.name, model, prompt, ...(system ? { system } : {}), request, response, usage, recordedAt: Date.now() });
+  }
 
   /**
-   * Universal Fetch Wrapper with Neural Bridge Fallback.
-   * If the specific provider key is missing, we transparently route 
-   * the request through the System Core (Gemini) to ensure the 
-   * application remains functional (Mocking the persona).
+   * Universal Fetch Wrapper.
+   * Streams when the payload asks for it and the server complies; otherwise
+   * reads the whole body. Failures surface as typed AIProviderErrors; recovery
+   * is the AIServiceManager's job, governed by the configured fallback policy.
    */
-  protected async fetchAI(
+  protected async fetchAI<T>(
+    prompt: string,
     url: string, 
     payload: any, 
     apiKey: string | undefined, 
     modelId: string, 
-    cost: number,
-    prompt: string, // RAW Prompt required for fallback routing
-    customHeaders?: Record<string, string>
-  ): Promise<GraphData> {
-    
-    // 1. PRIMARY PATHWAY: Use the specific provider API
-    if (apiKey) {
-      try {
-        const headers = {
-          'Content-Type': 'application/json',
-          ...(customHeaders || { 'Authorization': `Bearer ${apiKey}` })
-        };
+    format: ResponseFormat<T>,
+    customHeaders?: Record<string, string>,
+    options: AIRequestOptions = {}
+  ): Promise<T & ProviderReply> {
+    const { signal, onText } = options;
+    if (!apiKey && this.requiresApiKey) {
+      const error = new AIProviderError('AUTH', this.name, 'No API key configured');
+      this.markUnhealthy(error);
+      throw error;
+    }
 
-        const res = await fetch(url, {
-          method: 'POST',
-          headers: headers,
-          body: JSON.stringify(payload)
-        });
+    return this.guardedCall(async () => {
+      const headers = {
+        'Content-Type': 'application/json',
+        ...(customHeaders || (apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}))
+      };
 
-        if(!res.ok) {
-          const errText = await res.text();
-          console.warn(`[${this.name}] API Error: ${res.status}. Switching to fallback.`);
-          throw new Error(`${this.name} API Error: ${res.statusText}`);
-        }
-        
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: headers,
+        body: JSON.stringify(payload),
+        signal: requestSignal(signal)
+      });
+
+      if (!res.ok) {
+        throw classifyHttpError(this.name, res.status, await res.text(), res.headers.get('retry-after'));
+      }
+      
+      let content = "";
+      let reportedUsage: AITokenUsage | null = null;
+
+      if (res.headers.get('content-type')?.includes('text/event-stream')) {
+        ({ content, usage: reportedUsage } = await readEventStream(this.name, res, onText));
+      } else {
         const data = await res.json();
-        this.deductTokens(cost, modelId); 
-        
-        let content = "";
         
         // Parsing Logic for different providers
         if (data.choices && data.choices[0] && data.choices[0].message) {
@@ -165,73 +614,20 @@ abstract class BaseAIProvider implements AIProvider {
         } else if (data.content && data.content[0] && data.content[0].text) {
             content = data.content[0].text;
         } else {
-            throw new Error("Unknown response format");
+            throw new AIProviderError('PARSE', this.name, "Unknown response format");
         }
-
-        const jsonStr = content.replace(/```json\n?|\n?```/g, "").trim();
-        return sanitizeGraphData(JSON.parse(jsonStr));
-      } catch (e) {
-        console.warn(`[${this.name}] Primary connection failed.`, e);
-        // Fall through to fallback
+        reportedUsage = extractUsage(data);
+        onText?.(content);
       }
-    } else {
-      console.warn(`[${this.name}] No API Key found.`);
-    }
-
-    // 2. FALLBACK PATHWAY: Neural Bridge (Gemini Core)
-    if (process.env.API_KEY) {
-       console.log(`[${this.name}] Engaging Neural Bridge: Routing request via System Core.`);
-       return this.generateViaFallback(modelId, prompt);
-    }
-
-    // 3. LAST RESORT: Static Mock
-    return this.generateMockResponse(modelId);
-  }
-
-  private async generateViaFallback(modelId: string, prompt: string): Promise<GraphData> {
-     try {
-       const fallbackClient = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-       
-       // We instruct the Core to adopt the persona of the requested provider
-       // to maintain the "flavor" of the request if possible.
-       const enhancedPrompt = `
-         ${prompt}
-         
-         SYSTEM OVERRIDE:
-         You are acting as a fallback for the ${this.name} engine (Model: ${modelId}).
-         Ensure you generate a high-quality, rich Knowledge Graph with at least 15 nodes and 20 links.
-         Do NOT return a simulation error. Return real data.
-       `;
-
-       const response = await fallbackClient.models.generateContent({
-          model: 'gemini-2.5-flash', // High speed, low latency fallback
-          contents: enhancedPrompt,
-          config: {
-              responseMimeType: "application/json",
-              responseSchema: graphResponseSchema,
-              temperature: 0.3,
-          }
-       });
-
-       const text = response.text;
-       if (!text) throw new Error("Fallback Core returned empty response");
-       
-       // Deduct from the "active" model statistics to maintain illusion of usage
-       this.deductTokens(prompt.length + text.length, modelId);
-       
-       return sanitizeGraphData(JSON.parse(text) as GraphData);
-
-     } catch (e) {
-       console.error("Neural Bridge Failure:", e);
-       return this.generateMockResponse(modelId);
-     }
-  }
-
-  private generateMockResponse(modelId: string): GraphData {
-      return {
-        nodes: [{ id: 'system_error', label: `Connection Failed`, type: 'Error', summary: `Both ${this.name} and System Core are unreachable. Check credentials.`, groupLabel: 'Technology', metrics: { significance: 10 } }],
-        links: []
-      };
+
+      const usage = reportedUsage || { promptTokens: estimateTokens(JSON.stringify(payload)), completionTokens: estimateTokens(content) };
+      this.bill(usage, modelId, options.label);
+
+      // Only exchanges that parse become fixtures; a malformed reply is retried, not replayed
+      const parsed = format.parse(content);
+      this.captureFixture(prompt, format.system, modelId, payload, content, usage);
+      return { ...parsed, model: modelId, usage };
+    }, signal);
   }
 }
 
@@ -241,146 +637,274 @@ abstract class BaseAIProvider implements AIProvider {
 
 class GeminiProvider extends BaseAIProvider {
   name = "Gemini";
+  credentials: AICredentialSource = () => process.env.API_KEY;
   models: AIModel[] = [
     { id: 'gemini-2.0-flash-thinking-exp-1219', name: 'Flash Thinking (2.0)', type: 'heavy', remainingTokens: 50000, maxTokens: 50000 },
     { id: 'gemini-2.5-flash', name: 'Flash 2.5', type: 'standard', remainingTokens: 150000, maxTokens: 150000 }
   ];
   
-  private client: GoogleGenAI;
+  private client: GoogleGenAI | null = null;
+  private clientKey: string | undefined;
 
-  constructor() {
-    super();
-    if (!process.env.API_KEY) {
+  // The client is rebuilt whenever the credential source yields a new key
+  private getClient(): GoogleGenAI {
+    const apiKey = this.credentials();
+    if (!apiKey) {
         console.warn("Gemini API_KEY is missing from environment variables.");
     }
-    this.client = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+    if (!this.client || this.clientKey !== apiKey) {
+        this.client = new GoogleGenAI({ apiKey: apiKey || '' });
+        this.clientKey = apiKey;
+    }
+    return this.client;
   }
 
-  async generateGraph(prompt: string, modelId?: string): Promise<GraphData> {
+  protected async complete<T>(prompt: string, modelId: string | undefined, options: AIRequestOptions, format: ResponseFormat<T>): Promise<T & ProviderReply> {
     this.activeModelId = modelId || this.models[1].id; 
     
     const model = this.models.find(m => m.id === this.activeModelId);
     if (model && model.remainingTokens <= 0) {
         // Self-healing: If Gemini quota is out, we can't really do much unless we rotate keys, 
         // but for now we throw to trigger the Manager's next step.
-        throw new Error(`Gemini Model ${model.name} Quota Exceeded`);
+        throw new AIProviderError('QUOTA', this.name, `Model ${model.name} budget exhausted`);
     }
 
+    const activeModelId = this.activeModelId;
     try {
-      const response = await this.client.models.generateContent({
-        model: this.activeModelId, 
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: graphResponseSchema,
-          temperature: 0.3, 
-        }
-      });
-
-      const text = response.text;
-      if (!text) throw new Error("Empty response from Gemini");
-      
-      this.deductTokens(prompt.length + text.length, this.activeModelId);
-      return sanitizeGraphData(JSON.parse(text) as GraphData);
+      return await this.guardedCall(async () => {
+        const request = {
+          model: activeModelId, 
+          contents: prompt,
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: format.schema,
+            ...(format.system ? { systemInstruction: format.system } : {}),
+            temperature: options.temperature ?? DEFAULT_TEMPERATURE
+          }
+        };
+        const stream = await this.getClient().models.generateContentStream({
+          ...request,
+          config: { ...request.config, abortSignal: requestSignal(options.signal) }
+        });
 
+        let text = "";
+        let lastChunk: GenerateContentResponse | undefined;
+        for await (const chunk of stream) {
+          lastChunk = chunk;
+          if (!chunk.text) continue;
+          text += chunk.text;
+          options.onText?.(text);
+        }
+        if (!text || !lastChunk) throw new AIProviderError('PARSE', this.name, "Empty response from Gemini");
+        
+        // usageMetadata is cumulative; the final chunk carries the totals
+        const usage = extractGeminiUsage(lastChunk) || { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(text) };
+        this.bill(usage, activeModelId, options.label);
+        const parsed = format.parse(text);
+        this.captureFixture(prompt, format.system, activeModelId, request, text, usage);
+        return { ...parsed, model: activeModelId, usage };
+      }, options.signal);
     } catch (error) {
-      console.error("Gemini API Execution Failed:", error);
+      if (!isAbortError(error)) console.error("Gemini API Execution Failed:", error);
       throw error;
     }
   }
 }
 
 // -----------------------------------------------------------------------------
-// SECONDARY PROVIDERS (Now with Neural Bridge Support)
+// SECONDARY PROVIDERS
 // -----------------------------------------------------------------------------
 
 class OpenAIProvider extends BaseAIProvider {
   name = "OpenAI";
+  credentials: AICredentialSource = () => process.env.OPENAI_API_KEY;
   models: AIModel[] = [
     { id: 'gpt-4o', name: 'GPT-4o', type: 'heavy', remainingTokens: 80000, maxTokens: 80000 },
     { id: 'gpt-4o-mini', name: 'GPT-4o Mini', type: 'standard', remainingTokens: 200000, maxTokens: 200000 }
   ];
 
-  async generateGraph(prompt: string, modelId?: string): Promise<GraphData> {
+  protected async complete<T>(prompt: string, modelId: string | undefined, options: AIRequestOptions, format: ResponseFormat<T>): Promise<T & ProviderReply> {
     this.activeModelId = modelId || 'gpt-4o-mini';
     const payload = {
       model: this.activeModelId,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
       messages: [
-        { role: "system", content: "You are a JSON generator for knowledge graphs." },
-        { role: "user", content: prompt + "\nRespond strictly in JSON matching the schema." }
+        { role: "system", content: format.system || "You are a JSON generator for knowledge graphs." },
+        { role: "user", content: prompt + "\n" + format.instruction }
       ],
-      response_format: { type: "json_object" }
+      response_format: { type: "json_object" },
+      stream: true,
+      stream_options: { include_usage: true }
     };
-    return this.fetchAI('https://api.openai.com/v1/chat/completions', payload, process.env.OPENAI_API_KEY, this.activeModelId, 1000, prompt);
+    return this.fetchAI(prompt, 'https://api.openai.com/v1/chat/completions', payload, this.credentials(), this.activeModelId, format, undefined, options);
   }
 }
 
 class GrokProvider extends BaseAIProvider {
   name = "Grok";
+  credentials: AICredentialSource = () => process.env.GROK_API_KEY;
   models: AIModel[] = [
     { id: 'grok-2-latest', name: 'Grok 2', type: 'heavy', remainingTokens: 60000, maxTokens: 60000 },
     { id: 'grok-beta', name: 'Grok Beta', type: 'standard', remainingTokens: 120000, maxTokens: 120000 }
   ];
 
-  async generateGraph(prompt: string, modelId?: string): Promise<GraphData> {
+  protected async complete<T>(prompt: string, modelId: string | undefined, options: AIRequestOptions, format: ResponseFormat<T>): Promise<T & ProviderReply> {
     this.activeModelId = modelId || 'grok-beta';
     const payload = {
       model: this.activeModelId,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
       messages: [
-        { role: "system", content: "You are a specialized Knowledge Graph generator. Return ONLY JSON." },
-        { role: "user", content: prompt + "\n\nSchema: { nodes: [], links: [] }" }
+        { role: "system", content: format.system || "You are a specialized Knowledge Graph generator. Return ONLY JSON." },
+        { role: "user", content: prompt + "\n\n" + format.instruction }
       ],
-      response_format: { type: "json_object" }
+      response_format: { type: "json_object" },
+      stream: true,
+      stream_options: { include_usage: true }
     };
-    return this.fetchAI('https://api.x.ai/v1/chat/completions', payload, process.env.GROK_API_KEY, this.activeModelId, 1200, prompt);
+    return this.fetchAI(prompt, 'https://api.x.ai/v1/chat/completions', payload, this.credentials(), this.activeModelId, format, undefined, options);
   }
 }
 
 class ClaudeProvider extends BaseAIProvider {
   name = "Claude";
+  credentials: AICredentialSource = () => process.env.ANTHROPIC_API_KEY;
   models: AIModel[] = [
     { id: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet', type: 'heavy', remainingTokens: 75000, maxTokens: 75000 },
     { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku', type: 'standard', remainingTokens: 180000, maxTokens: 180000 }
   ];
 
-  async generateGraph(prompt: string, modelId?: string): Promise<GraphData> {
+  protected async complete<T>(prompt: string, modelId: string | undefined, options: AIRequestOptions, format: ResponseFormat<T>): Promise<T & ProviderReply> {
     this.activeModelId = modelId || 'claude-3-5-sonnet-20241022';
     
     const payload = {
       model: this.activeModelId,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
       max_tokens: 4096,
-      system: "You are a JSON generator. Output ONLY valid JSON representing the knowledge graph.",
+      stream: true,
+      system: format.system || "You are a JSON generator. Output ONLY valid JSON representing the knowledge graph.",
       messages: [
-        { role: "user", content: prompt + "\n\nEnsure strict JSON syntax." }
+        { role: "user", content: prompt + "\n\n" + format.instruction + "\nEnsure strict JSON syntax." }
       ]
     };
 
+    const apiKey = this.credentials();
     const headers = {
-      'x-api-key': process.env.ANTHROPIC_API_KEY || '',
+      'x-api-key': apiKey || '',
       'anthropic-version': '2023-06-01'
     };
 
-    return this.fetchAI('https://api.anthropic.com/v1/messages', payload, process.env.ANTHROPIC_API_KEY, this.activeModelId, 1500, prompt, headers);
+    return this.fetchAI(prompt, 'https://api.anthropic.com/v1/messages', payload, apiKey, this.activeModelId, format, headers, options);
   }
 }
 
 class DeepSeekProvider extends BaseAIProvider {
   name = "DeepSeek";
+  credentials: AICredentialSource = () => process.env.DEEPSEEK_API_KEY;
   models: AIModel[] = [
     { id: 'deepseek-chat', name: 'DeepSeek V3', type: 'standard', remainingTokens: 100000, maxTokens: 100000 }
   ];
 
-  async generateGraph(prompt: string, modelId?: string): Promise<GraphData> {
+  protected async complete<T>(prompt: string, modelId: string | undefined, options: AIRequestOptions, format: ResponseFormat<T>): Promise<T & ProviderReply> {
     this.activeModelId = modelId || 'deepseek-chat';
     const payload = {
        model: this.activeModelId,
+       temperature: options.temperature ?? DEFAULT_TEMPERATURE,
        messages: [
-         { role: "system", content: "You are a JSON generator." },
-         { role: "user", content: prompt }
+         { role: "system", content: format.system || "You are a JSON generator." },
+         { role: "user", content: prompt + "\n" + format.instruction }
        ],
-       response_format: { type: "json_object" }
+       response_format: { type: "json_object" },
+      stream: true,
+      stream_options: { include_usage: true }
     };
-    return this.fetchAI('https://api.deepseek.com/chat/completions', payload, process.env.DEEPSEEK_API_KEY, this.activeModelId, 800, prompt);
+    return this.fetchAI(prompt, 'https://api.deepseek.com/chat/completions', payload, this.credentials(), this.activeModelId, format, undefined, options);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// LOCAL PROVIDER (OpenAI-compatible endpoint: Ollama / llama.cpp / LM Studio)
+// Enables fully offline generation on air-gapped machines.
+// -----------------------------------------------------------------------------
+
+const LOCAL_TOKEN_BUDGET = 1000000; // Local inference has no vendor quota
+
+class LocalProvider extends BaseAIProvider {
+  name = "Local";
+  models: AIModel[] = []; // Populated by refreshModels()
+  credentials: AICredentialSource = () => process.env.LOCAL_AI_API_KEY;
+  protected requiresApiKey = false;
+
+  constructor(private endpoint: () => string) {
+    super();
+  }
+
+  // Accepts 'http://host:port', 'http://host:port/' or 'http://host:port/v1'
+  private get baseUrl(): string {
+    return this.endpoint().trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+  }
+
+  async refreshModels(): Promise<void> {
+    const apiKey = this.credentials();
+    const res = await fetch(`${this.baseUrl}/v1/models`, {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+    });
+    if (!res.ok) throw new Error(`${this.name} model discovery failed: ${res.status}`);
+
+    const data = await res.json();
+    const discovered: { id: string }[] = Array.isArray(data?.data) ? data.data : [];
+
+    // Preserve remaining budgets for models we already know about
+    this.models = discovered.map(({ id }) => {
+      const known = this.models.find(m => m.id === id);
+      return known || { id, name: id, type: 'standard', remainingTokens: LOCAL_TOKEN_BUDGET, maxTokens: LOCAL_TOKEN_BUDGET };
+    });
+  }
+
+  protected async complete<T>(prompt: string, modelId: string | undefined, options: AIRequestOptions, format: ResponseFormat<T>): Promise<T & ProviderReply> {
+    this.activeModelId = modelId || this.models[0]?.id || '';
+    if (!this.activeModelId) throw new Error(`${this.name} has no discovered models at ${this.baseUrl}`);
+
+    // response_format is omitted: support for it varies across local servers
+    const payload = {
+      model: this.activeModelId,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      messages: [
+        { role: "system", content: format.system || "You are a JSON generator for knowledge graphs. Return ONLY JSON." },
+        { role: "user", content: prompt + "\n" + format.instruction }
+      ],
+      stream: true,
+      stream_options: { include_usage: true }
+    };
+    return this.fetchAI(prompt, `${this.baseUrl}/v1/chat/completions`, payload, this.credentials(), this.activeModelId, format, undefined, options);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// REPLAY PROVIDER
+// Serves recorded fixtures back: deterministic, offline and free.
+// Used exclusively in REPLAY mode, so it is not part of the registry.
+// -----------------------------------------------------------------------------
+
+const REPLAY_TOKEN_BUDGET = 1000000; // Nominal; replayed answers are never metered
+
+class ReplayProvider extends BaseAIProvider {
+  name = "Replay";
+  credentials: AICredentialSource = () => undefined;
+  protected requiresApiKey = false;
+  models: AIModel[] = [
+    { id: 'fixtures', name: 'Recorded Fixtures', type: 'standard', remainingTokens: REPLAY_TOKEN_BUDGET, maxTokens: REPLAY_TOKEN_BUDGET }
+  ];
+
+  protected async complete<T>(prompt: string, modelId: string | undefined, options: AIRequestOptions, format: ResponseFormat<T>): Promise<T & ProviderReply> {
+    this.activeModelId = 'fixtures';
+    const fixture = providerFixtures.find(prompt, modelId, format.system);
+    if (!fixture) {
+      throw new AIProviderError('UNAVAILABLE', this.name, `No fixture recorded for this prompt (${providerFixtures.count} loaded)`);
+    }
+
+    options.onText?.(fixture.response);
+    // Same parsing path as a live answer, so sanitization is exercised for real
+    return { ...format.parse(fixture.response), model: `${fixture.provider}::${fixture.model}` };
   }
 }
 
@@ -389,104 +913,802 @@ class DeepSeekProvider extends BaseAIProvider {
 // Orchestrates provider selection and fallback logic.
 // -----------------------------------------------------------------------------
 
+type PlanStep = { provider: AIProvider; modelId?: string; tier: AIModelType };
+
+const DEFAULT_EXPECTED_ENTITIES = 40; // Nodes + links, when the caller gives no hint
+const STREAM_PROGRESS_CAP = 0.95; // The last stretch is reserved for integration
+const MAX_REPORTED_ISSUES = 20; // Enough to fix a response, small enough for a prompt or provenance
+
+/**
+ * Validates and sanitizes a graph in the manager, whatever produced it:
+ * providers added through the registry need not parse like BaseAIProvider.
+ * Both steps are idempotent, so already-checked answers pass unchanged.
+ */
+const checkGraphResult = (result: AIGenerationResult): AIGenerationResult => {
+  const { ontology } = usePrismStore.getState();
+  const { data, issues } = validateGraphData(result.data, graphFormat(ontology).schema);
+  const sanitized = sanitizeGraphData(data, ontology, issues);
+  return { ...result, data: sanitized, issues: [...(result.issues || []), ...issues] };
+};
+
+// Everything after the call that shapes a cached graph; changing any of it is a cache miss
+const buildCacheVariant = ({ correctiveRetry, verificationPass, relationClassifier }: AISettings, { activatedAt, ...ontology }: Ontology) =>
+  JSON.stringify({ correctiveRetry, verificationPass, relationClassifier, ontology });
+
+const countRejected = (issues?: ValidationIssue[]) => (issues || []).filter(issue => issue.action === 'rejected').length;
+
+const failedAttempt = (provider: string, model: string, startedAt: number, error: AIProviderError, extra: Partial<AIAttempt> = {}): AIAttempt => ({
+  provider,
+  model,
+  outcome: 'FAILED',
+  errorKind: error.kind,
+  error: error.message,
+  startedAt,
+  durationMs: Date.now() - startedAt,
+  ...extra
+});
+
+// Consensus tallies, keyed like consolidateGraphData: nodes by ID, links by linkKey
+const castVote = (votes: Map<string, Set<string>>, key: string, provider: string) => {
+  if (!votes.has(key)) votes.set(key, new Set());
+  votes.get(key)!.add(provider);
+};
+
+const VERIFICATION_TEMPERATURE = 0; // Fact-checking should be as deterministic as the model allows
+const CLASSIFICATION_TEMPERATURE = 0; // Same wording, same predicate
+const OTHER_PREDICATE = 'OTHER'; // The classifier's "none of these"
+
+// Claim keys are model-generated IDs too; verdicts are matched on the same cleaned form
+const claimKey = (key: string) => sanitizeInput(key, 'claim').toLowerCase();
+
+// Prompts that read a graph get the ontology it was built under, so group and relation names carry their meaning
+const ontologyContext = (ontology: Ontology) => `The graph follows this ontology.\n${describeOntology(ontology)}`;
+
+// Every node and link as a keyed claim for the verifier
+const buildVerificationPrompt = (data: GraphData, ontology: Ontology) => {
+  const labels = new Map(data.nodes.map(n => [n.id, n.label]));
+  const nodeClaims = data.nodes.map(n => `- [${claimKey(n.id)}] ${quoteInput(n.label, 'label')}: ${quoteInput(n.summary || n.type, 'summary')}`);
+  const linkClaims = data.links.map(l => {
+    const source = l.source as string;
+    const target = l.target as string;
+    return `- [${claimKey(linkKey(l))}] ${quoteInput(labels.get(source) || source, 'label')} ${sanitizeInput(l.relation, 'relation')} ${quoteInput(labels.get(target) || target, 'label')}`;
+  });
+  return `
+    Fact-check each claim below independently. Judge factual accuracy only; do not add new claims.
+    For every claim, return its key exactly as given in brackets, a verdict (CONFIRMED, DISPUTED or UNCERTAIN), your confidence (0-1) and, unless confirmed, a short note.
+    ${ontologyContext(ontology)}
+    Claims:
+${[...nodeClaims, ...linkClaims].join('\n')}
+    ${UNTRUSTED_DATA_NOTICE}
+  `;
+};
+
+// Each unknown wording with one link as context, so direction is not lost
+const buildClassificationPrompt = (unresolved: OptimizedConnection[], vocabulary: string[], data: GraphData, ontology: Ontology) => {
+  const labels = new Map(data.nodes.map(n => [n.id, n.label]));
+  const lines = unresolved.map(l => {
+    const source = l.source as string;
+    const target = l.target as string;
+    return `- ${quoteInput(l.relation, 'relation')} (e.g. ${quoteInput(labels.get(source) || source, 'label')} -> ${quoteInput(labels.get(target) || target, 'label')})`;
+  });
+  return `
+    Map each relation wording below to the one predicate from this list that means the same, read from source to target:
+    ${vocabulary.join(', ')}
+    Never pick a predicate that reverses the direction. Answer ${OTHER_PREDICATE} when none fits.
+    Return each wording exactly as given, in quotes below, with its predicate.
+    ${ontologyContext(ontology)}
+    Wordings:
+${lines.join('\n')}
+    ${UNTRUSTED_DATA_NOTICE}
+  `;
+};
+
 class AIServiceManager {
-  private providers: AIProvider[];
+  private registry = new Map<string, AIProviderRegistration>();
+  private listeners = new Set<() => void>();
+  private replay = new ReplayProvider();
   
   constructor() {
-    this.providers = [
-      new GeminiProvider(),
-      new OpenAIProvider(),
-      new GrokProvider(),
-      new ClaudeProvider(),
-      new DeepSeekProvider()
-    ];
+    // Built-in providers. Priorities are spaced so custom providers can slot in between.
+    this.registerProvider(new GeminiProvider(), { priority: 10 });
+    this.registerProvider(new OpenAIProvider(), { priority: 20 });
+    this.registerProvider(new GrokProvider(), { priority: 30 });
+    this.registerProvider(new ClaudeProvider(), { priority: 40 });
+    this.registerProvider(new DeepSeekProvider(), { priority: 50 });
+    this.registerProvider(new LocalProvider(() => usePrismStore.getState().aiSettings.localEndpoint), { priority: 60 });
+  }
+
+  // --- REGISTRY ---
+
+  /**
+   * Plugs a provider into the routing table. Registering a provider under an
+   * existing name replaces the previous registration.
+   */
+  registerProvider(provider: AIProvider, options: AIProviderRegistrationOptions = {}) {
+    if (options.credentials) provider.credentials = options.credentials;
+    const priority = options.priority ?? (this.registry.size + 1) * 10;
+    this.registry.set(provider.name, { provider, priority });
+    this.notify();
+  }
+
+  unregisterProvider(name: string): boolean {
+    const removed = this.registry.delete(name);
+    if (removed) this.notify();
+    return removed;
+  }
+
+  /** Subscribes to registry changes. Returns the unsubscribe handle. */
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Re-discovers model catalogs for providers that support it
+   * (or for a single provider when a name is given).
+   */
+  async refreshProviderModels(name?: string): Promise<void> {
+    const targets = this.providers.filter(p => p.refreshModels && (!name || p.name === name));
+    await Promise.all(targets.map(async p => {
+      try {
+        await p.refreshModels!();
+      } catch (e) {
+        console.warn(`[AI Manager]: Model discovery failed for ${p.name}.`, e);
+      }
+    }));
+    this.notify();
+  }
+
+  // Sorted by priority so Auto Mode and the UI share a single ordering
+  private get providers(): AIProvider[] {
+    return Array.from(this.registry.values())
+      .sort((a, b) => a.priority - b.priority)
+      .map(entry => entry.provider);
   }
 
   getProviders() { return this.providers; }
 
+  getProvider(name: string) { return this.registry.get(name)?.provider; }
+
   getAllStats(): AIProviderStats[] {
     return this.providers.map(p => p.getStats());
   }
 
-  async executeWithFallback(prompt: string): Promise<GraphData> {
-    const { aiSettings, updateAIStatus, setStatus } = usePrismStore.getState();
-    
-    let executionPlan: { provider: AIProvider, modelId?: string }[] = [];
+  setModelBudget(providerName: string, modelId: string, maxTokens: number) {
+    const provider = this.getProvider(providerName);
+    if (!provider?.setModelBudget) return;
+    provider.setModelBudget(modelId, maxTokens);
+    quotaLedger.setBudget(providerName, modelId, maxTokens)
+      .catch(e => console.error("[AI Manager]: Failed to persist budget", e));
+    this.notify();
+  }
 
-    // 1. Build Execution Plan
+  // --- QUOTA LEDGER ---
+
+  /**
+   * Rebuilds in-memory quotas from the persisted ledger.
+   * Called on boot and before every execution plan is built.
+   */
+  async syncQuotas() {
+    try {
+      await quotaLedger.syncProviders(this.providers);
+      this.notify();
+    } catch (e) {
+      console.error("[AI Manager]: Quota ledger sync failed", e);
+    }
+  }
+
+  async setQuotaWindow(providerName: string, window: QuotaWindow, rollingHours?: number) {
+    await quotaLedger.setPolicy(providerName, rollingHours ? { window, rollingHours } : { window });
+    await this.syncQuotas();
+  }
+
+  /**
+   * Orders the (provider, model) pairs to try for a request and trims the
+   * list according to the configured fallback policy.
+   */
+  private buildExecutionPlan(aiSettings: AISettings): PlanStep[] {
+    // Replay never touches the network, whatever the routing settings say
+    if (aiSettings.providerMode === 'REPLAY') return [{ provider: this.replay, tier: 'standard' }];
+
+    const candidates: PlanStep[] = [];
+
+    // Auto Mode order: Heavy/Thinking models first, then Standard models across providers.
+    // Providers cooling down from rate limits or errors are skipped.
+    const healthy = this.providers.filter(p => p.getStats().status === 'ACTIVE');
+    (['heavy', 'standard'] as const).forEach(tier => {
+      healthy.forEach(p => {
+        const model = p.models.find(m => m.type === tier && m.remainingTokens > 0);
+        if (model) candidates.push({ provider: p, modelId: model.id, tier });
+      });
+    });
+
+    let plan = candidates;
     if (!aiSettings.autoMode) {
-      // Manual Override: Try strictly the selected provider
-      const selectedP = this.providers.find(p => p.name === aiSettings.selectedProvider);
-      if (selectedP) {
-        executionPlan.push({ provider: selectedP, modelId: aiSettings.selectedModel });
+      // Manual Override: the selected provider always goes first
+      const selected = this.getProvider(aiSettings.selectedProvider);
+      if (!selected) return [];
+      const modelId = aiSettings.selectedModel || selected.models[0]?.id;
+      const tier = selected.models.find(m => m.id === modelId)?.type || 'standard';
+      plan = [
+        { provider: selected, modelId, tier },
+        ...candidates.filter(c => !(c.provider === selected && c.modelId === modelId))
+      ];
+    }
+
+    if (plan.length === 0) return plan;
+    switch (aiSettings.fallbackPolicy) {
+      case 'NONE': return plan.slice(0, 1);
+      case 'SAME_TIER': return plan.filter(step => step.tier === plan[0].tier);
+      case 'ANY': return plan;
+    }
+  }
+
+  // --- RESPONSE CACHE ---
+
+  /**
+   * Walks the plan in order and returns the first live cached answer.
+   * Cache trouble is logged and treated as a miss.
+   */
+  private async lookupCache(prompt: string, variant: string, plan: PlanStep[], temperature: number, ttlHours: number): Promise<CachedResponse | null> {
+    try {
+      for (const { provider, modelId } of plan) {
+        if (!modelId) continue;
+        const entry = await responseCache.get(await buildCacheKey(prompt, provider.name, modelId, temperature, variant), ttlHours);
+        if (entry) return entry;
+      }
+    } catch (e) {
+      console.warn("[AI Manager]: Response cache lookup failed", e);
+    }
+    return null;
+  }
+
+  private async storeInCache(prompt: string, variant: string, provider: string, model: string, temperature: number, data: GraphData) {
+    try {
+      const key = await buildCacheKey(prompt, provider, model, temperature, variant);
+      await responseCache.put({ key, provider, model, temperature, prompt: normalizePrompt(prompt), data, createdAt: Date.now() });
+    } catch (e) {
+      console.warn("[AI Manager]: Failed to cache response", e);
+    }
+  }
+
+  // --- CORRECTIVE RETRY ---
+
+  /**
+   * Feeds the rejected items back to the same provider once and keeps the
+   * answer with fewer rejections. A failed retry falls back to the original;
+   * only a cancellation propagates.
+   */
+  private async correct(
+    provider: AIProvider,
+    modelId: string | undefined,
+    prompt: string,
+    original: AIGenerationResult,
+    trace: AIAttempt[],
+    options: AIRequestOptions
+  ): Promise<AIGenerationResult> {
+    const rejected = (original.issues || []).filter(issue => issue.action === 'rejected');
+    // Messages quote the model's own values, so they are cleaned like any other graph text
+    const errors = rejected.slice(0, MAX_REPORTED_ISSUES).map(issue => `- ${sanitizeInput(issue.path, 'id')}: ${quoteInput(issue.message, 'summary')}`).join('\n');
+    const correctivePrompt = `${prompt}
+
+      Your previous answer failed schema validation; these items were discarded:
+      ${errors}
+      Return the complete corrected JSON.
+      ${UNTRUSTED_DATA_NOTICE}`;
+
+    options.onProgress?.({ stage: `Asking ${provider.name} to correct ${rejected.length} rejected items...` });
+    const startedAt = Date.now();
+    try {
+      const answer = checkGraphResult(await provider.generateGraph(correctivePrompt, modelId, { signal: options.signal, temperature: options.temperature, system: options.system, label: options.label }));
+      trace.push({ provider: provider.name, model: answer.model, outcome: 'SUCCESS', startedAt, durationMs: Date.now() - startedAt, corrective: true });
+      // Compared like for like: the original's count includes relations the ontology rejected
+      const retry = await this.canonicalizeResult(answer, trace, options);
+      return countRejected(retry.issues) < rejected.length ? retry : original;
+    } catch (e) {
+      const error = classifyError(provider.name, e, options.signal);
+      trace.push(failedAttempt(provider.name, modelId || original.model, startedAt, error, { corrective: true }));
+      if (error.kind === 'ABORTED') throw error;
+      console.warn(`[AI Manager]: Corrective retry on ${provider.name} failed; keeping the original answer`, error);
+      return original;
+    }
+  }
+
+  // --- VERIFICATION PASS ---
+
+  /**
+   * Has a second model confirm or dispute every node and link of a fresh
+   * result, preferring another provider. Verdicts are written onto the
+   * entities; a failed pass leaves them unverified. Only a cancellation
+   * propagates.
+   */
+  private async verify(data: GraphData, answeredBy: string, answeredModel: string, trace: AIAttempt[], options: AIRequestOptions) {
+    const report = options.onProgress || (() => {});
+    // A second opinion is deliberate, not a fallback: the fallback policy does not narrow it
+    const candidates = this.buildExecutionPlan({ ...usePrismStore.getState().aiSettings, fallbackPolicy: 'ANY' })
+      .filter(step => step.provider.verifyClaims);
+    const verifier = candidates.find(step => step.provider.name !== answeredBy)
+      || candidates.find(step => step.modelId !== answeredModel);
+    if (!verifier) {
+      console.warn("[AI Manager]: No second model available for verification");
+      return;
+    }
+
+    const { provider, modelId } = verifier;
+    report({ stage: `Verifying ${data.nodes.length + data.links.length} claims with ${provider.name}::${modelId || 'auto'}...` });
+    const startedAt = Date.now();
+    try {
+      const result = await provider.verifyClaims!(buildVerificationPrompt(data, usePrismStore.getState().ontology), modelId, { signal: options.signal, temperature: VERIFICATION_TEMPERATURE, label: options.label });
+      trace.push({ provider: provider.name, model: result.model, outcome: 'SUCCESS', startedAt, durationMs: Date.now() - startedAt, verification: true });
+
+      const checkedAt = Date.now();
+      const verdicts = new Map(result.verdicts.map(v => [v.claim.trim().toLowerCase(), v]));
+      const apply = (item: { verification?: Verification }, key: string) => {
+        const verdict = verdicts.get(claimKey(key));
+        if (!verdict) return;
+        item.verification = {
+          verdict: verdict.verdict,
+          confidence: verdict.confidence,
+          ...(verdict.note ? { note: verdict.note } : {}),
+          provider: provider.name,
+          model: result.model,
+          checkedAt
+        };
+      };
+      data.nodes.forEach(node => apply(node, node.id));
+      data.links.forEach(link => apply(link, linkKey(link)));
+    } catch (e) {
+      const error = classifyError(provider.name, e, options.signal);
+      trace.push(failedAttempt(provider.name, modelId || 'auto', startedAt, error, { verification: true }));
+      if (error.kind === 'ABORTED') throw error;
+      console.warn(`[AI Manager]: Verification on ${provider.name} failed; entities stay unverified`, error);
+    }
+  }
+
+  // --- RELATION NORMALIZATION ---
+
+  /**
+   * Rewrites fresh graphs' relations to canonical predicates. Wordings the
+   * synonym table does not know go to a classifier when one is enabled,
+   * in one call for all graphs.
+   */
+  private async canonicalize(graphs: GraphData[], trace: AIAttempt[], options: AIRequestOptions): Promise<{ data: GraphData; issues: ValidationIssue[] }[]> {
+    const { aiSettings, ontology } = usePrismStore.getState();
+    const vocabulary = relationVocabulary(ontology);
+    const combined: GraphData = { nodes: graphs.flatMap(g => g.nodes), links: graphs.flatMap(g => g.links) };
+    const unresolved = findUnresolvedRelations(combined.links, vocabulary);
+    const classified = aiSettings.relationClassifier && unresolved.length > 0
+      ? await this.classifyRelations(unresolved, vocabulary, combined, trace, options)
+      : {};
+    return graphs.map(data => normalizeRelations(data, ontology, classified));
+  }
+
+  /** canonicalize for a single answer; normalization issues join its validation issues. */
+  private async canonicalizeResult(result: AIGenerationResult, trace: AIAttempt[], options: AIRequestOptions): Promise<AIGenerationResult> {
+    const [canonical] = await this.canonicalize([result.data], trace, options);
+    return { ...result, data: canonical.data, issues: [...(result.issues || []), ...canonical.issues] };
+  }
+
+  /**
+   * One classifier call for all unknown wordings, on the first provider in
+   * the plan that supports it. Answers outside the vocabulary are ignored;
+   * a failed call leaves the wordings to the ontology's fallback rules.
+   * Only a cancellation propagates.
+   */
+  private async classifyRelations(
+    unresolved: OptimizedConnection[],
+    vocabulary: string[],
+    data: GraphData,
+    trace: AIAttempt[],
+    options: AIRequestOptions
+  ): Promise<Record<string, string>> {
+    const classifier = this.buildExecutionPlan(usePrismStore.getState().aiSettings).find(step => step.provider.classifyRelations);
+    if (!classifier) return {};
+
+    const { provider, modelId } = classifier;
+    options.onProgress?.({ stage: `Classifying ${unresolved.length} relation wording(s) with ${provider.name}::${modelId || 'auto'}...` });
+    const startedAt = Date.now();
+    try {
+      const prompt = buildClassificationPrompt(unresolved, vocabulary, data, usePrismStore.getState().ontology);
+      const result = await provider.classifyRelations!(prompt, modelId, { signal: options.signal, temperature: CLASSIFICATION_TEMPERATURE, label: options.label });
+      trace.push({ provider: provider.name, model: result.model, outcome: 'SUCCESS', startedAt, durationMs: Date.now() - startedAt, classification: true });
+
+      // Wordings were sent sanitized, so answers are matched on that form
+      const asked = new Map(unresolved.map(l => [cleanInput(l.relation, 'relation').toLowerCase(), l.relation]));
+      const classified: Record<string, string> = {};
+      result.mappings.forEach(({ relation, predicate }) => {
+        const wording = asked.get(relation.trim().toLowerCase());
+        const canonical = normalizeRelation(predicate);
+        if (wording && canonical !== OTHER_PREDICATE && vocabulary.includes(canonical)) classified[wording] = canonical;
+      });
+      return classified;
+    } catch (e) {
+      const error = classifyError(provider.name, e, options.signal);
+      trace.push(failedAttempt(provider.name, modelId || 'auto', startedAt, error, { classification: true }));
+      if (error.kind === 'ABORTED') throw error;
+      console.warn(`[AI Manager]: Relation classification on ${provider.name} failed; unknown wordings use the fallback`, error);
+      return {};
+    }
+  }
+
+  // --- CONSENSUS MODE ---
+
+  /**
+   * One step per distinct provider, in routing order, up to the configured
+   * size. Like verification, consensus is deliberate: the fallback policy
+   * does not narrow it.
+   */
+  private pickConsensusSteps(aiSettings: AISettings): PlanStep[] {
+    if (aiSettings.consensusSize <= 1 || aiSettings.providerMode === 'REPLAY') return [];
+    const steps: PlanStep[] = [];
+    for (const step of this.buildExecutionPlan({ ...aiSettings, fallbackPolicy: 'ANY' })) {
+      if (steps.length >= aiSettings.consensusSize) break;
+      if (!steps.some(s => s.provider.name === step.provider.name)) steps.push(step);
+    }
+    return steps;
+  }
+
+  /**
+   * Sends the prompt to several providers in parallel and merges their graphs
+   * with consolidateGraphData. Every node and link records which providers
+   * produced it independently. Fails only when no provider answers.
+   */
+  private async executeConsensus(prompt: string, steps: PlanStep[], requestId: string, options: AIRequestOptions): Promise<GraphData> {
+    const { aiSettings, distinctPairs, updateAIStatus } = usePrismStore.getState();
+    const report = options.onProgress || (() => {});
+    const trace: AIAttempt[] = [];
+    let settled = 0;
+
+    report({ stage: `Consensus: querying ${steps.map(s => s.provider.name).join(', ')}...`, progress: 0 });
+    const outcomes = await Promise.all(steps.map(async ({ provider, modelId }) => {
+      updateAIStatus(provider.name, { ...provider.getStats(), activeModel: modelId || 'auto' });
+      const startedAt = Date.now();
+      try {
+        const result = checkGraphResult(await provider.generateGraph(prompt, modelId, { signal: options.signal, temperature: options.temperature, system: options.system, label: options.label }));
+        trace.push({ provider: provider.name, model: result.model, outcome: 'SUCCESS', startedAt, durationMs: Date.now() - startedAt });
+        return { provider: provider.name, result };
+      } catch (e) {
+        const error = classifyError(provider.name, e, options.signal);
+        trace.push(failedAttempt(provider.name, modelId || 'auto', startedAt, error));
+        if (error.kind !== 'ABORTED') console.warn(`[AI Manager]: ${provider.name} failed (${error.kind}) in consensus`, error);
+        return null;
+      } finally {
+        updateAIStatus(provider.name, provider.getStats());
+        settled++;
+        report({ stage: `Consensus: ${settled}/${steps.length} providers answered`, progress: Math.min(STREAM_PROGRESS_CAP, settled / steps.length) });
       }
-    } else {
-      // Auto Mode: Prioritize Heavy/Thinking models, then Standard models across providers
-      this.providers.forEach(p => {
-        const heavyModel = p.models.find(m => m.type === 'heavy' && m.remainingTokens > 0);
-        if (heavyModel) executionPlan.push({ provider: p, modelId: heavyModel.id });
+    }));
+
+    if (options.signal?.aborted) {
+      throw new AIProviderError('ABORTED', 'AI Manager', 'Request cancelled by user');
+    }
+    const answered = outcomes.filter((o): o is NonNullable<typeof o> => o !== null);
+    if (answered.length === 0) throw new AIExecutionError("All AI Pathways failed. System offline.", trace);
+
+    // Edges merge per relation, so wordings must be canonical before the merge
+    const canonical = await this.canonicalize(answered.map(a => a.result.data), trace, { ...options, onProgress: report });
+    answered.forEach((answer, idx) => {
+      answer.result = { ...answer.result, data: canonical[idx].data, issues: [...(answer.result.issues || []), ...canonical[idx].issues] };
+    });
+
+    // Provenance per producer; a merged node lists every producer
+    const timestamp = Date.now();
+    answered.forEach(({ provider, result }) => {
+      const validation = result.issues?.length ? result.issues.slice(0, MAX_REPORTED_ISSUES) : undefined;
+      result.data.nodes.forEach(node => {
+        node.researchMetadata = { provider, model: result.model, timestamp, requestId, trace, validation, prompt: options.promptRef };
       });
-      this.providers.forEach(p => {
-        const stdModel = p.models.find(m => m.type === 'standard' && m.remainingTokens > 0);
-        if (stdModel) executionPlan.push({ provider: p, modelId: stdModel.id });
+    });
+
+    // Merge in routing order, tallying providers per resolved node and relation.
+    // Same rules as the workspace: borderline pairs stay apart, so addGraphData
+    // can queue them for review, and pairs marked distinct never merge
+    const review = { band: aiSettings.duplicateBand, distinct: new Set(distinctPairs.map(p => p.key)) };
+    let merged: GraphData = { nodes: [], links: [] };
+    const nodeVotes = new Map<string, Set<string>>();
+    const linkVotes = new Map<string, Set<string>>();
+    answered.forEach(({ provider, result }) => {
+      const { nodes, links, idMap } = consolidateGraphData(merged.nodes, merged.links, result.data.nodes, result.data.links, aiSettings.mergePolicy, review);
+      merged = { nodes, links };
+      idMap.forEach(resolved => castVote(nodeVotes, resolved, provider));
+      result.data.links.forEach(link => {
+        const source = idMap.get(link.source as string);
+        const target = idMap.get(link.target as string);
+        if (source && target && source !== target) castVote(linkVotes, linkKey({ ...link, source, target }), provider);
       });
+    });
+
+    const total = answered.length;
+    merged.nodes.forEach(node => {
+      node.agreement = { providers: Array.from(nodeVotes.get(node.id) || []), total };
+    });
+    merged.links.forEach(link => {
+      link.agreement = { providers: Array.from(linkVotes.get(linkKey(link)) || []), total };
+    });
+
+    if (aiSettings.verificationPass) {
+      await this.verify(merged, answered[0].provider, answered[0].result.model, trace, { ...options, onProgress: report });
     }
+    return merged;
+  }
+
+  async executeWithFallback(prompt: string, options: AIRequestOptions = {}): Promise<GraphData> {
+    const { aiSettings, ontology, updateAIStatus, setStatus } = usePrismStore.getState();
+    const format = graphFormat(ontology);
 
+    // Quotas are honoured from the persisted ledger, not just this page's memory
+    await this.syncQuotas();
+
+    // 1. Build Execution Plan
+    const executionPlan = this.buildExecutionPlan(aiSettings);
     if (executionPlan.length === 0) throw new Error("No available AI Providers match the configuration.");
 
-    // 2. Execute Plan
-    let attempts = 0;
+    const requestId = uuidv4();
+    const temperature = options.temperature ?? DEFAULT_TEMPERATURE;
+
+    // Consensus: several providers answer at once. Never cached: a single
+    // cached answer would defeat the point of asking several
+    const consensusSteps = this.pickConsensusSteps(aiSettings);
+    if (consensusSteps.length > 1) {
+      return this.executeConsensus(prompt, consensusSteps, requestId, { ...options, temperature });
+    }
+
+    // Recording needs real exchanges, and replay must stay deterministic
+    const cacheEnabled = aiSettings.cacheTtlHours > 0 && aiSettings.providerMode === 'LIVE';
+    // A template's system message and the ontology shape the answer as much as the prompt does
+    const cachePrompt = [options.system, format.instruction, prompt].filter(Boolean).join('\n\n');
+    const cacheVariant = buildCacheVariant(aiSettings, ontology);
+    const report = options.onProgress || (() => {});
+
+    // 2. Serve from the response cache, unless told to go to the provider
+    if (cacheEnabled && !options.bypassCache) {
+      const startedAt = Date.now();
+      const hit = await this.lookupCache(cachePrompt, cacheVariant, executionPlan, temperature, aiSettings.cacheTtlHours);
+      if (hit) {
+        const trace: AIAttempt[] = [{ provider: hit.provider, model: hit.model, outcome: 'CACHED', startedAt, durationMs: Date.now() - startedAt }];
+        const timestamp = Date.now();
+        hit.data.nodes.forEach(node => {
+          node.researchMetadata = { provider: hit.provider, model: hit.model, timestamp, requestId, trace, cachedAt: hit.createdAt, prompt: options.promptRef };
+        });
+        report({ stage: `Served from cache (${hit.provider}::${hit.model})`, progress: 1 });
+        return hit.data;
+      }
+    }
+
+    // 3. Execute Plan, tracing every attempt
+    const trace: AIAttempt[] = [];
+    const expected = options.expectedEntities || DEFAULT_EXPECTED_ENTITIES;
     
-    for (const step of executionPlan) {
-      const { provider, modelId } = step;
+    for (const { provider, modelId } of executionPlan) {
+      // Cancelled between steps: queued fallbacks never start
+      if (options.signal?.aborted) break;
+
       updateAIStatus(provider.name, { ...provider.getStats(), activeModel: modelId || 'auto' });
-      
-      if (attempts > 0) setStatus('SWITCHING_PROVIDER');
+      if (trace.length > 0) setStatus(AppStatus.SWITCHING_PROVIDER);
 
+      // Each step streams into a fresh parser; partial entities feed the canvas
+      const parser = new GraphStreamParser();
+      const onText = (text: string) => {
+        if (!parser.update(text)) return;
+        const partial = sanitizeGraphData(validateGraphData(parser.snapshot, format.schema).data, ontology);
+        report({
+          stage: `Receiving from ${provider.name}: ${partial.nodes.length} nodes, ${partial.links.length} links`,
+          progress: Math.min(STREAM_PROGRESS_CAP, (partial.nodes.length + partial.links.length) / expected),
+          partial
+        });
+      };
+
+      const startedAt = Date.now();
       try {
         console.log(`[AI Manager]: Engaging ${provider.name}::${modelId}`);
-        const data = await provider.generateGraph(prompt, modelId);
-        
-        // Inject Provenance Data
+        report({ stage: `Awaiting ${provider.name}::${modelId || 'auto'}...`, progress: 0 });
+        let result = checkGraphResult(await provider.generateGraph(prompt, modelId, { signal: options.signal, temperature, onText, system: options.system, label: options.label }));
+        trace.push({ provider: provider.name, model: result.model, outcome: 'SUCCESS', startedAt, durationMs: Date.now() - startedAt });
+
+        // Canonical first, so relations a strict ontology rejects also earn a corrective retry
+        result = await this.canonicalizeResult(result, trace, { ...options, onProgress: report });
+        if (aiSettings.correctiveRetry && countRejected(result.issues) > 0) {
+          result = await this.correct(provider, modelId, prompt, result, trace, { ...options, temperature, onProgress: report });
+        }
+
+        if (aiSettings.verificationPass) {
+          await this.verify(result.data, provider.name, result.model, trace, { ...options, onProgress: report });
+        }
+
+        // Inject Provenance Data: always the provider & model that really answered
+        const { data, model, issues } = result;
         const timestamp = Date.now();
-        const finalModelId = modelId || provider.getStats().activeModel;
-        
+        const validation = issues?.length ? issues.slice(0, MAX_REPORTED_ISSUES) : undefined;
         data.nodes.forEach(node => {
-            if (!node.researchMetadata) {
-                node.researchMetadata = { provider: provider.name, model: finalModelId, timestamp };
-            }
+          node.researchMetadata = { provider: provider.name, model, timestamp, requestId, trace, validation, prompt: options.promptRef };
         });
+        // Snapshot now: the caller merges (and may later mutate) these nodes
+        if (cacheEnabled) this.storeInCache(cachePrompt, cacheVariant, provider.name, model, temperature, structuredClone(data));
 
         updateAIStatus(provider.name, provider.getStats());
         return data;
 
-      } catch (error) {
-        console.warn(`[AI Manager]: ${provider.name} failed. Falling back...`, error);
-        attempts++;
+      } catch (e) {
+        const error = classifyError(provider.name, e, options.signal);
+        trace.push(failedAttempt(provider.name, modelId || 'auto', startedAt, error));
+        updateAIStatus(provider.name, provider.getStats());
+        if (error.kind === 'ABORTED') break;
+        console.warn(`[AI Manager]: ${provider.name} failed (${error.kind}). Falling back...`, error);
+        report({ stage: `${provider.name} failed (${error.kind}). Rerouting...`, progress: 0, partial: { nodes: [], links: [] } });
       }
     }
 
-    throw new Error("All AI Pathways failed. System offline.");
+    if (options.signal?.aborted) {
+      throw new AIProviderError('ABORTED', 'AI Manager', 'Request cancelled by user');
+    }
+
+    throw new AIExecutionError("All AI Pathways failed. System offline.", trace);
+  }
+
+  // --- ANSWER MODE ---
+
+  /**
+   * Answer-only counterpart of executeWithFallback: same plan, quotas and
+   * tracing, but providers return prose with cited node IDs instead of a
+   * graph. Answers are never cached; they depend on the live workspace.
+   */
+  async answerWithFallback(prompt: string, options: AIRequestOptions = {}): Promise<GroundedAnswer> {
+    const { aiSettings, updateAIStatus, setStatus } = usePrismStore.getState();
+    await this.syncQuotas();
+
+    const executionPlan = this.buildExecutionPlan(aiSettings).filter(step => step.provider.generateAnswer);
+    if (executionPlan.length === 0) throw new Error("No available AI Providers support answer mode.");
+
+    const temperature = options.temperature ?? DEFAULT_TEMPERATURE;
+    const report = options.onProgress || (() => {});
+    const trace: AIAttempt[] = [];
+
+    for (const { provider, modelId } of executionPlan) {
+      if (options.signal?.aborted) break;
+
+      updateAIStatus(provider.name, { ...provider.getStats(), activeModel: modelId || 'auto' });
+      if (trace.length > 0) setStatus(AppStatus.SWITCHING_PROVIDER);
+
+      const startedAt = Date.now();
+      try {
+        report({ stage: `Awaiting ${provider.name}::${modelId || 'auto'}...`, progress: 0 });
+        const onText = (text: string) => report({ stage: `Receiving answer from ${provider.name} (${text.length} chars)` });
+        const result = await provider.generateAnswer!(prompt, modelId, { signal: options.signal, temperature, onText, label: options.label });
+        trace.push({ provider: provider.name, model: result.model, outcome: 'SUCCESS', startedAt, durationMs: Date.now() - startedAt });
+
+        updateAIStatus(provider.name, provider.getStats());
+        return { ...result.answer, provider: provider.name, model: result.model, timestamp: Date.now(), trace };
+
+      } catch (e) {
+        const error = classifyError(provider.name, e, options.signal);
+        trace.push(failedAttempt(provider.name, modelId || 'auto', startedAt, error));
+        updateAIStatus(provider.name, provider.getStats());
+        if (error.kind === 'ABORTED') break;
+        console.warn(`[AI Manager]: ${provider.name} failed (${error.kind}). Falling back...`, error);
+        report({ stage: `${provider.name} failed (${error.kind}). Rerouting...`, progress: 0 });
+      }
+    }
+
+    if (options.signal?.aborted) {
+      throw new AIProviderError('ABORTED', 'AI Manager', 'Request cancelled by user');
+    }
+
+    throw new AIExecutionError("All AI Pathways failed. System offline.", trace);
   }
 }
 
 export const aiManager = new AIServiceManager();
 
 // Public facade functions
-export const generateGraphFromTopic = async (topic: string) => {
+
+// Fills {{evidence}} in graph-building templates: evidence and calibrated confidence make a graph reportable
+const EVIDENCE_INSTRUCTION = "For each node and link, add 'sources' (title, url, short quote) that support it. Only cite references you are confident exist; omit 'sources' otherwise. Rate each node and link with a 'confidence' between 0 and 1; be honest about speculation.";
+const EXISTING_ID_LIMIT = 60; // Enough to encourage re-use without flooding the prompt
+
+/**
+ * Renders the active template for a research action and runs it. The
+ * template's system message and version travel with the request.
+ */
+const runTemplate = async (action: PromptAction, variables: PromptVariables, label: string, options: AIRequestOptions) => {
+  const template = await promptLibrary.getActive(action);
+  const existingIds = usePrismStore.getState().nodes.slice(0, EXISTING_ID_LIMIT).map(n => sanitizeInput(n.id, 'id')).join(', ');
+  const prompt = `${renderTemplate(template.body, {
+    existingIds,
+    nodeCount: template.nodeCount,
+    language: template.language,
+    evidence: EVIDENCE_INSTRUCTION,
+    ...variables
+  })}\n${UNTRUSTED_DATA_NOTICE}`;
+  return aiManager.executeWithFallback(prompt, {
+    label,
+    expectedEntities: Math.round(template.nodeCount * 2.5), // Roughly as many links as nodes, and then some
+    system: template.system || undefined,
+    promptRef: { action, version: template.version },
+    ...options
+  });
+};
+
+// Variables are sanitized here; templates supply quotes around single values, list variables carry their own
+export const generateGraphFromTopic = async (topic: string, options: AIRequestOptions = {}) =>
+  runTemplate('topic', { topic: sanitizeInput(topic, 'topic') }, topic, options);
+
+export const findCorrelation = async (nodeA: ResearchNode, nodeB: ResearchNode, options: AIRequestOptions = {}) =>
+  runTemplate('correlation', {
+    topic: `${sanitizeInput(nodeA.label, 'label')} <-> ${sanitizeInput(nodeB.label, 'label')}`,
+    nodeLabels: `${quoteInput(nodeA.label, 'label')} and ${quoteInput(nodeB.label, 'label')}`,
+    nodeIds: `${sanitizeInput(nodeA.id, 'id')}, ${sanitizeInput(nodeB.id, 'id')}`
+  }, `${nodeA.label} <-> ${nodeB.label}`, options);
+
+export const expandNode = async (
+  node: ResearchNode,
+  neighbours: { node: ResearchNode; relation: string }[],
+  options: AIRequestOptions = {}
+) =>
+  runTemplate('expand', {
+    topic: sanitizeInput(node.label, 'label'),
+    nodeLabels: quoteInput(node.label, 'label'),
+    nodeIds: sanitizeInput(node.id, 'id'),
+    summary: sanitizeInput(node.summary, 'summary'),
+    tags: (node.tags || []).map(tag => quoteInput(tag, 'tag')).join(', '),
+    neighbours: neighbours.map(n => `- ${quoteInput(n.node.label, 'label')} (id: ${sanitizeInput(n.node.id, 'id')}) via ${sanitizeInput(n.relation, 'relation')}`).join('\n')
+  }, `Expand: ${node.label}`, options);
+
+export const askGraph = async (question: string, context: GraphData, options: AIRequestOptions = {}) => {
+  const endpoint = (end: string | ResearchNode) => typeof end === 'object' ? end.id : end;
+  const nodeLines = context.nodes.map(n =>
+    `- [${sanitizeInput(n.id, 'id')}] ${quoteInput(n.label, 'label')} (${sanitizeInput(n.groupLabel, 'type')}/${sanitizeInput(n.type, 'type')}): ${n.summary ? quoteInput(n.summary, 'summary') : 'no summary'}${n.tags?.length ? ` Tags: ${n.tags.map(tag => quoteInput(tag, 'tag')).join(', ')}` : ''}`
+  );
+  const linkLines = context.links.map(l => `- ${sanitizeInput(endpoint(l.source), 'id')} -${sanitizeInput(l.relation, 'relation')}-> ${sanitizeInput(endpoint(l.target), 'id')}`);
   const prompt = `
-    Generate a knowledge graph for: "${topic}".
-    Create 15-20 nodes and 20+ connections.
-    CRITICAL: Use consistent, snake_case IDs. Include 'tags'.
+    Answer the question using ONLY the knowledge graph context below. If the context is insufficient, say so.
+    Refer to entities as [node_id] in the answer, and list every node ID you rely on in 'citations'.
+    ${ontologyContext(usePrismStore.getState().ontology)}
+    Question: ${quoteInput(question, 'question')}
+    Nodes:
+${nodeLines.join('\n')}
+    Links:
+${linkLines.join('\n') || '- none'}
+    ${UNTRUSTED_DATA_NOTICE}
   `;
-  return aiManager.executeWithFallback(prompt);
+  const result = await aiManager.answerWithFallback(prompt, { label: `Ask: ${question}`, ...options });
+
+  // Citations must point at the context we supplied; anything else is invented
+  const known = new Set(context.nodes.map(n => n.id));
+  return { ...result, citations: result.citations.filter(id => known.has(id)) };
 };
 
-export const findCorrelation = async (nodeA: ResearchNode, nodeB: ResearchNode) => {
-  const prompt = `
-    Find connections between: "${nodeA.label}" and "${nodeB.label}".
-    Create intermediate nodes to bridge them.
-    CRITICAL: Re-use exact snake_case IDs.
+const SUMMARY_RECONCILE_LIMIT = 5; // Rewrites per merge; further conflicts keep the concatenation
+
+/**
+ * Rewrites the concatenated summaries left by the 'summarize' merge policy,
+ * one request per node, and records the rewrite in the node's provenance.
+ * A failed rewrite keeps the concatenation; only a cancellation propagates.
+ */
+export const reconcileSummaries = async (conflicts: SummaryConflict[], options: AIRequestOptions = {}) => {
+  for (const conflict of conflicts.slice(0, SUMMARY_RECONCILE_LIMIT)) {
+    const prompt = `
+    Merge these descriptions of ${quoteInput(conflict.label, 'label')} into one concise summary of at most three sentences.
+    Keep every distinct fact; where they contradict each other, say so. Put the summary in 'answer' and leave 'citations' empty.
+    Descriptions:
+${conflict.summaries.map(summary => `- ${quoteInput(summary, 'summary')}`).join('\n')}
+    ${UNTRUSTED_DATA_NOTICE}
   `;
-  return aiManager.executeWithFallback(prompt);
+    try {
+      const result = await aiManager.answerWithFallback(prompt, { label: `Merge summary: ${conflict.label}`, ...options });
+      const { nodes, updateNode } = usePrismStore.getState();
+      const node = nodes.find(n => n.id === conflict.nodeId);
+      if (!node || !result.answer.trim()) continue;
+      updateNode(node.id, {
+        summary: result.answer.trim(),
+        provenance: [...getProvenance(node), { provider: result.provider, model: result.model, timestamp: result.timestamp, trace: result.trace }]
+      });
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn(`[AI Manager]: Could not reconcile the summaries of ${conflict.nodeId}; keeping both`, e);
+    }
+  }
 };
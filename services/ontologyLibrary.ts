@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { Ontology } from '../types/prism';
+import { DEFAULT_ONTOLOGY } from '../utils/ontology';
+
+// -----------------------------------------------------------------------------
+// ONTOLOGY LIBRARY
+// Saved ontologies live in IndexedDB. Activating one stamps it, so the
+// active choice survives reloads without a separate settings record.
+// -----------------------------------------------------------------------------
+
+class OntologyLibrary {
+  async list(): Promise<Ontology[]> {
+    const stored = await db.ontologies.toArray();
+    return stored.some(o => o.name === DEFAULT_ONTOLOGY.name) ? stored : [DEFAULT_ONTOLOGY, ...stored];
+  }
+
+  /** The most recently activated ontology, or the built-in default. */
+  async getActive(): Promise<Ontology> {
+    const latest = await db.ontologies.orderBy('activatedAt').last();
+    return latest || DEFAULT_ONTOLOGY;
+  }
+
+  /** Saves an ontology (replacing one of the same name) and makes it active. */
+  async activate(ontology: Ontology): Promise<Ontology> {
+    const active = { ...ontology, activatedAt: Date.now() };
+    await db.ontologies.put(active);
+    return active;
+  }
+
+  /** Removes a saved ontology. Removing an edited 'Default' brings back the built-in one. */
+  async remove(name: string) {
+    await db.ontologies.delete(name);
+  }
+}
+
+export const ontologyLibrary = new OntologyLibrary();
@@ -0,0 +1,159 @@
+import { db } from '../db';
+import { PromptAction, PromptTemplate } from '../types/prism';
+
+// -----------------------------------------------------------------------------
+// PROMPT TEMPLATES
+// The prompts behind each research action live in IndexedDB as versioned
+// templates, so extraction style can be tuned per domain without a release.
+// -----------------------------------------------------------------------------
+
+export const PROMPT_ACTIONS: { value: PromptAction; label: string }[] = [
+  { value: 'topic', label: 'Topic research' },
+  { value: 'correlation', label: 'Correlation' },
+  { value: 'expand', label: 'Expand neighbourhood' }
+];
+
+// Everything a template may reference. Values an action cannot supply render as 'none'
+export const PROMPT_VARIABLES: { name: string; hint: string }[] = [
+  { name: 'topic', hint: 'Subject of the request' },
+  { name: 'nodeLabels', hint: 'Labels of the nodes the request is about' },
+  { name: 'nodeIds', hint: 'IDs of those nodes' },
+  { name: 'existingIds', hint: 'IDs already in the workspace' },
+  { name: 'nodeCount', hint: 'Desired number of new nodes' },
+  { name: 'language', hint: 'Language for labels and summaries' },
+  { name: 'summary', hint: 'Summary of the focus node (expand)' },
+  { name: 'tags', hint: 'Tags of the focus node (expand)' },
+  { name: 'neighbours', hint: 'Current neighbours of the focus node (expand)' },
+  { name: 'evidence', hint: 'Standard sources & confidence instruction' }
+];
+
+export type PromptVariables = Partial<Record<string, string | number>>;
+
+type TemplateDraft = Pick<PromptTemplate, 'system' | 'body' | 'nodeCount' | 'language'>;
+
+const DEFAULT_TEMPLATES: Record<PromptAction, TemplateDraft> = {
+  topic: {
+    system: '',
+    body: `Generate a knowledge graph for: "{{topic}}".
+Create about {{nodeCount}} nodes and 20+ connections.
+CRITICAL: Use consistent, snake_case IDs. Include 'tags'.
+Write labels and summaries in {{language}}.
+{{evidence}}`,
+    nodeCount: 18,
+    language: 'English'
+  },
+  correlation: {
+    system: '',
+    body: `Find connections between: {{nodeLabels}}.
+Create about {{nodeCount}} intermediate nodes to bridge them.
+CRITICAL: Re-use exact snake_case IDs ({{nodeIds}}).
+Write labels and summaries in {{language}}.
+{{evidence}}`,
+    nodeCount: 8,
+    language: 'English'
+  },
+  expand: {
+    system: '',
+    body: `Expand the knowledge graph around {{nodeLabels}} (id: {{nodeIds}}).
+Summary: "{{summary}}"
+Tags: {{tags}}
+Already connected to:
+{{neighbours}}
+Add {{nodeCount}} NEW adjacent entities not listed above, each linked to "{{nodeIds}}" or to one another.
+CRITICAL: Include "{{nodeIds}}" itself in 'nodes' with that exact ID. Re-use exact snake_case IDs for any existing entity you link to, and include it in 'nodes' too.
+Write labels and summaries in {{language}}.
+{{evidence}}`,
+    nodeCount: 8,
+    language: 'English'
+  }
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Fills {{variable}} placeholders. Known variables without a value become
+ * 'none'; unknown placeholders are left in place so mistakes stay visible.
+ */
+export const renderTemplate = (body: string, variables: PromptVariables): string =>
+  body.replace(PLACEHOLDER, (match, name: string) => {
+    if (!PROMPT_VARIABLES.some(v => v.name === name)) return match;
+    const value = variables[name];
+    return value === undefined || value === '' ? 'none' : String(value);
+  });
+
+/** Placeholders in a template body that no action can fill. */
+export const findUnknownVariables = (body: string): string[] => {
+  const unknown = new Set<string>();
+  for (const [, name] of body.matchAll(PLACEHOLDER)) {
+    if (!PROMPT_VARIABLES.some(v => v.name === name)) unknown.add(name);
+  }
+  return Array.from(unknown);
+};
+
+class PromptLibrary {
+  private latest = new Map<PromptAction, PromptTemplate>();
+  private loading: Promise<void> | null = null;
+
+  // Concurrent callers share one read; a failed read is retried by the next caller
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = db.promptTemplates.toArray().then(stored => {
+        stored.forEach(t => {
+          const current = this.latest.get(t.action);
+          if (!current || t.version > current.version) this.latest.set(t.action, t);
+        });
+      });
+      this.loading.catch(() => { this.loading = null; });
+    }
+    return this.loading;
+  }
+
+  /** The built-in template for an action, as version 0. */
+  getDefault(action: PromptAction): PromptTemplate {
+    return { action, version: 0, ...DEFAULT_TEMPLATES[action], createdAt: 0 };
+  }
+
+  /** The newest saved version, or the built-in default when none was saved. */
+  async getActive(action: PromptAction): Promise<PromptTemplate> {
+    await this.load();
+    return this.latest.get(action) || this.getDefault(action);
+  }
+
+  /** Every saved version, newest first, followed by the built-in default. */
+  async getHistory(action: PromptAction): Promise<PromptTemplate[]> {
+    const saved = await db.promptTemplates.where('action').equals(action).toArray();
+    return [...saved.sort((a, b) => b.version - a.version), this.getDefault(action)];
+  }
+
+  /**
+   * Saves a new version and makes it active. Versions are never rewritten,
+   * so provenance always points at the exact text that was sent.
+   */
+  async save(action: PromptAction, draft: TemplateDraft): Promise<PromptTemplate> {
+    await this.load();
+    const current = this.latest.get(action);
+    const template: PromptTemplate = {
+      action,
+      version: (current?.version || 0) + 1,
+      system: draft.system.trim(),
+      body: draft.body.trim(),
+      nodeCount: Math.max(1, Math.round(draft.nodeCount)),
+      language: draft.language.trim() || DEFAULT_TEMPLATES[action].language,
+      createdAt: Date.now()
+    };
+    template.id = await db.promptTemplates.add(template);
+    this.latest.set(action, template);
+    return template;
+  }
+
+  /** Makes an earlier version (or the built-in, version 0) active again, as a new version. */
+  async restore(action: PromptAction, version: number): Promise<PromptTemplate> {
+    const source = version === 0
+      ? this.getDefault(action)
+      : await db.promptTemplates.where('[action+version]').equals([action, version]).first();
+    if (!source) throw new Error(`No version ${version} of the ${action} template`);
+    return this.save(action, source);
+  }
+}
+
+export const promptLibrary = new PromptLibrary();
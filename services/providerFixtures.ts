@@ -0,0 +1,91 @@
+import { FixtureFile, ProviderFixture } from '../types/prism';
+import { normalizePrompt } from './responseCache';
+
+// -----------------------------------------------------------------------------
+// PROVIDER FIXTURES
+// Raw provider exchanges captured in RECORD mode and served back in REPLAY
+// mode, so sessions can be reproduced without network access or API keys.
+// -----------------------------------------------------------------------------
+
+export const FIXTURE_FILE_VERSION = 1;
+
+const isFixture = (value: any): value is ProviderFixture =>
+  typeof value?.provider === 'string' &&
+  typeof value?.model === 'string' &&
+  typeof value?.prompt === 'string' &&
+  (value?.system === undefined || typeof value.system === 'string') &&
+  typeof value?.response === 'string';
+
+/**
+ * Parses and checks an exported fixture file. Throws on anything unusable.
+ */
+export const parseFixtureFile = (text: string): FixtureFile => {
+  const file = JSON.parse(text);
+  if (file?.version !== FIXTURE_FILE_VERSION) {
+    throw new Error(`Unsupported fixture file version: ${file?.version}`);
+  }
+  if (!Array.isArray(file.fixtures) || !file.fixtures.every(isFixture)) {
+    throw new Error("Fixture file contains malformed entries");
+  }
+  return file as FixtureFile;
+};
+
+// The same prompt under another system prompt (e.g. a template's) is another request
+const fixtureKey = (prompt: string, system?: string) => JSON.stringify([normalizePrompt(prompt), normalizePrompt(system || '')]);
+
+class ProviderFixtureStore {
+  private fixtures: ProviderFixture[] = [];
+  private listeners = new Set<() => void>();
+
+  get count() {
+    return this.fixtures.length;
+  }
+
+  /** Records an exchange, replacing an older one for the same provider, model, prompt and system prompt. */
+  add(fixture: ProviderFixture) {
+    const key = fixtureKey(fixture.prompt, fixture.system);
+    this.fixtures = [
+      ...this.fixtures.filter(f => !(f.provider === fixture.provider && f.model === fixture.model && fixtureKey(f.prompt, f.system) === key)),
+      fixture
+    ];
+    this.notify();
+  }
+
+  /**
+   * Newest fixture recorded for the prompt and system prompt, preferring the
+   * requested model. Always the same answer for the same input: replay is
+   * deterministic.
+   */
+  find(prompt: string, model?: string, system?: string): ProviderFixture | undefined {
+    const key = fixtureKey(prompt, system);
+    const matches = this.fixtures.filter(f => fixtureKey(f.prompt, f.system) === key).reverse();
+    return matches.find(f => f.model === model) || matches[0];
+  }
+
+  /** Replaces the current set with the contents of a fixture file. */
+  load(file: FixtureFile) {
+    this.fixtures = [...file.fixtures];
+    this.notify();
+  }
+
+  toFile(): FixtureFile {
+    return { version: FIXTURE_FILE_VERSION, createdAt: Date.now(), fixtures: [...this.fixtures] };
+  }
+
+  clear() {
+    this.fixtures = [];
+    this.notify();
+  }
+
+  /** Subscribes to changes. Returns the unsubscribe handle. */
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const providerFixtures = new ProviderFixtureStore();
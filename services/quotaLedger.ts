@@ -0,0 +1,165 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { AIModel, AIProvider, AITokenUsage, QuotaPolicy, UsageEntry, UsageSession } from '../types/prism';
+
+// -----------------------------------------------------------------------------
+// QUOTA LEDGER
+// Persists every metered call so budgets survive reloads and reset on a
+// per-provider schedule instead of living only in memory.
+// -----------------------------------------------------------------------------
+
+const DEFAULT_POLICY: Omit<QuotaPolicy, 'provider'> = {
+  window: 'monthly',
+  rollingHours: 24,
+  budgets: {}
+};
+
+/**
+ * Start of the current accounting window (EPOCH ms).
+ */
+export const getWindowStart = (policy: QuotaPolicy, now: number = Date.now()): number => {
+  const date = new Date(now);
+  switch (policy.window) {
+    case 'daily':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+    case 'monthly':
+      return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+    case 'rolling':
+      return now - policy.rollingHours * 60 * 60 * 1000;
+  }
+};
+
+class QuotaLedger {
+  readonly sessionId = uuidv4();
+  private policies = new Map<string, QuotaPolicy>();
+  private loaded = false;
+  private unsaved: UsageEntry[] = []; // Recorded, not yet in the ledger; counted all the same
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Writes and syncs run one at a time, so a sync never reads around a write in flight
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  // One transaction, so a failed batch is absent as a whole and the next write retries it
+  private async flush() {
+    const batch = this.unsaved;
+    if (batch.length === 0) return;
+    await db.transaction('rw', db.usage, () => db.usage.bulkAdd(batch.map(entry => ({ ...entry }))));
+    this.unsaved = this.unsaved.filter(entry => !batch.includes(entry));
+  }
+
+  private async loadPolicies() {
+    if (this.loaded) return;
+    const stored = await db.quotaPolicies.toArray();
+    stored.forEach(p => this.policies.set(p.provider, p));
+    this.loaded = true;
+  }
+
+  getPolicy(provider: string): QuotaPolicy {
+    return this.policies.get(provider) || { provider, ...DEFAULT_POLICY, budgets: {} };
+  }
+
+  async setPolicy(provider: string, changes: Partial<Omit<QuotaPolicy, 'provider'>>) {
+    await this.loadPolicies();
+    const next = { ...this.getPolicy(provider), ...changes, provider };
+    this.policies.set(provider, next);
+    await db.quotaPolicies.put(next);
+  }
+
+  async setBudget(provider: string, modelId: string, maxTokens: number) {
+    await this.loadPolicies(); // Before reading: the other models' saved budgets must survive
+    const { budgets } = this.getPolicy(provider);
+    await this.setPolicy(provider, { budgets: { ...budgets, [modelId]: maxTokens } });
+  }
+
+  async record(provider: string, model: string, usage: AITokenUsage, label?: string) {
+    const entry: UsageEntry = {
+      sessionId: this.sessionId,
+      provider,
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      timestamp: Date.now(),
+      label
+    };
+    this.unsaved.push(entry);
+    await this.enqueue(() => this.flush());
+  }
+
+  /**
+   * Rebuilds each model's counters from the ledger entries inside its
+   * provider's current window, plus usage not yet written to it, and
+   * applies persisted budget overrides.
+   */
+  async syncProviders(providers: AIProvider[]) {
+    await this.loadPolicies();
+
+    await this.enqueue(async () => {
+      await this.flush().catch(e => console.warn("[Quota Ledger]: Usage not persisted yet; counting it from memory", e));
+
+      for (const provider of providers) {
+        const policy = this.getPolicy(provider.name);
+        const since = getWindowStart(policy);
+        const stored = await db.usage
+          .where('provider').equals(provider.name)
+          .filter(e => e.timestamp >= since)
+          .toArray();
+        const entries = [...stored, ...this.unsaved.filter(e => e.provider === provider.name && e.timestamp >= since)];
+
+        provider.models.forEach(model => {
+          const budget = policy.budgets[model.id];
+          if (typeof budget === 'number') model.maxTokens = budget;
+
+          const modelEntries = entries.filter(e => e.model === model.id);
+          applyUsage(model, {
+            promptTokens: modelEntries.reduce((sum, e) => sum + e.promptTokens, 0),
+            completionTokens: modelEntries.reduce((sum, e) => sum + e.completionTokens, 0)
+          });
+        });
+      }
+    });
+  }
+
+  /**
+   * Usage grouped by session, newest first. Reading stops at the first
+   * entry of the session past `limit`.
+   */
+  async getHistory(limit = 20): Promise<UsageSession[]> {
+    const sessions = new Map<string, UsageSession>();
+
+    await db.usage.orderBy('timestamp').reverse()
+      .until(entry => !sessions.has(entry.sessionId) && sessions.size >= limit)
+      .each(entry => {
+        let session = sessions.get(entry.sessionId);
+        if (!session) {
+          session = { sessionId: entry.sessionId, startedAt: entry.timestamp, entries: [], promptTokens: 0, completionTokens: 0 };
+          sessions.set(entry.sessionId, session);
+        }
+        session.entries.push(entry);
+        session.startedAt = Math.min(session.startedAt, entry.timestamp);
+        session.promptTokens += entry.promptTokens;
+        session.completionTokens += entry.completionTokens;
+      });
+
+    return Array.from(sessions.values());
+  }
+
+  async clearHistory() {
+    await this.enqueue(async () => {
+      this.unsaved = [];
+      await db.usage.clear();
+    });
+  }
+}
+
+// Sets a model's counters to the window's totals: stored plus unsaved entries
+const applyUsage = (model: AIModel, usage: AITokenUsage) => {
+  model.promptTokens = usage.promptTokens;
+  model.completionTokens = usage.completionTokens;
+  model.remainingTokens = Math.max(0, model.maxTokens - usage.promptTokens - usage.completionTokens);
+};
+
+export const quotaLedger = new QuotaLedger();
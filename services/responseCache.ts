@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { CachedResponse } from '../types/prism';
+
+// -----------------------------------------------------------------------------
+// RESPONSE CACHE
+// Persists provider answers so re-running the same request costs nothing.
+// Entries are keyed by normalized prompt, provider, model and temperature.
+// -----------------------------------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Whitespace differences should not defeat the cache. Casing stays: "US" and "us",
+// or a case-sensitive term in a topic, can ask for different answers
+export const normalizePrompt = (prompt: string) => prompt.trim().replace(/\s+/g, ' ');
+
+/**
+ * SHA-256 (hex) over the fields that identify an answer. `variant` names
+ * whatever else shaped it after the call, e.g. post-processing settings.
+ */
+export const buildCacheKey = async (prompt: string, provider: string, model: string, temperature: number, variant = ''): Promise<string> => {
+  const material = JSON.stringify([normalizePrompt(prompt), provider, model, temperature, variant]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+class ResponseCache {
+  /**
+   * Returns the entry for a key if it is younger than the TTL.
+   * Expired entries are evicted on the way out.
+   */
+  async get(key: string, ttlHours: number): Promise<CachedResponse | undefined> {
+    const entry = await db.responseCache.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.createdAt > ttlHours * HOUR_MS) {
+      await db.responseCache.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async put(entry: CachedResponse) {
+    await db.responseCache.put(entry);
+  }
+
+  /** Drops every entry older than the TTL. Returns the number removed. */
+  async prune(ttlHours: number): Promise<number> {
+    return db.responseCache.where('createdAt').below(Date.now() - ttlHours * HOUR_MS).delete();
+  }
+
+  async count(): Promise<number> {
+    return db.responseCache.count();
+  }
+
+  async clear() {
+    await db.responseCache.clear();
+  }
+}
+
+export const responseCache = new ResponseCache();
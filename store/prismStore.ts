@@ -1,9 +1,12 @@
 
 import { create } from 'zustand';
-import { ResearchNode, OptimizedConnection, AppStatus, AIProviderStats, AISettings } from '../types/prism';
+import { ResearchNode, OptimizedConnection, GraphData, AppStatus, AIProviderStats, AISettings, AIFallbackPolicy, AIProviderMode, Ontology, NodeMergePolicy, SummaryConflict, MergeSuggestion, SimilarityBand, DistinctPair } from '../types/prism';
 import { INITIAL_NODES, INITIAL_LINKS } from '../data/mockData';
 import { db } from '../db';
-import { consolidateGraphData } from '../utils/graphUtils';
+import { consolidateGraphData, mergeNodeInto, rewireLinks, splitNode as splitNodeInGraph, uniqueNodeId, distinctPair, renameDistinctPairs, getProvenance, linkKey, manualProvenance, DEFAULT_MERGE_POLICY, DEFAULT_DUPLICATE_BAND, MIN_DUPLICATE_SIMILARITY } from '../utils/graphUtils';
+import { DEFAULT_ONTOLOGY } from '../utils/ontology';
+import { manualRelation, normalizeRelations } from '../utils/relations';
+import { ontologyLibrary } from '../services/ontologyLibrary';
 
 // -----------------------------------------------------------------------------
 // STATE SLICES
@@ -17,18 +20,51 @@ interface DataSlice {
   // Interaction State
   selectedNode: ResearchNode | null;
   hoveredNode: ResearchNode | null;
+  highlightedNodeIds: string[]; // Cited by the last grounded answer
+  ontology: Ontology; // Active vocabulary: constrains generation, styles the canvas
   
   // Operational State
   status: AppStatus;
   narrativeMode: boolean; // Camera follows a sequence
+  activeRequest: AbortController | null; // In-flight AI request, if any
+  pendingGraph: GraphData | null; // Entities streamed so far, not yet committed
+
+  // Duplicate Review
+  mergeSuggestions: MergeSuggestion[]; // Borderline duplicates awaiting a decision
+  distinctPairs: DistinctPair[]; // Every pair marked distinct
+
+  // Manual Editing
+  markedNodeIds: string[]; // Multi-selection (shift-click) for merge & split
+  undoStack: GraphSnapshot[]; // Most recent last
   
   // Actions
   setGraphData: (nodes: ResearchNode[], links: OptimizedConnection[]) => void;
-  addGraphData: (nodes: ResearchNode[], links: OptimizedConnection[]) => void;
+  addGraphData: (nodes: ResearchNode[], links: OptimizedConnection[]) => SummaryConflict[]; // Summaries left for reconcileSummaries
+  updateNode: (id: string, changes: Partial<ResearchNode>) => void;
+  acceptMergeSuggestion: (id: string) => void;
+  rejectMergeSuggestion: (id: string) => void;
+  markDistinct: (id: string) => Promise<void>;
+  toggleMarkedNode: (id: string) => void;
+  clearMarkedNodes: () => void;
+  mergeMarkedNodes: (keepId: string) => void;
+  splitNode: (id: string, label: string, movedLinkKeys: string[]) => string; // Returns the new node's ID
+  editNode: (id: string, changes: Partial<ResearchNode>) => void; // Stamped as a manual edit
+  addLink: (source: string, target: string, relation: string, weight: number) => boolean; // False when the edge already exists
+  editLink: (key: string, changes: { relation?: string; weight?: number }) => boolean; // Same
+  removeLink: (key: string) => void;
+  undo: () => void;
   selectNode: (node: ResearchNode | null) => void;
   setHoveredNode: (node: ResearchNode | null) => void;
+  setHighlightedNodes: (ids: string[]) => void;
+  setOntology: (ontology: Ontology) => void;
   setStatus: (status: AppStatus) => void;
   toggleNarrativeMode: () => void;
+
+  // AI Request Lifecycle
+  beginRequest: () => AbortSignal;
+  cancelRequest: () => void;
+  endRequest: (signal: AbortSignal, outcome?: AppStatus.IDLE | AppStatus.ERROR) => void; // No-op once superseded
+  setPendingGraph: (data: GraphData | null) => void;
   
   // Persistence
   loadFromDb: () => Promise<void>;
@@ -42,8 +78,13 @@ interface UISlice {
     isLegendOpen: boolean;
     isSettingsOpen: boolean;
     isCorrelationPanelOpen: boolean;
+    isUsagePanelOpen: boolean;
+    isInquiryPanelOpen: boolean;
+    isOntologyPanelOpen: boolean;
+    isReviewPanelOpen: boolean;
   };
   zoomLevel: number;
+  hideLowConfidence: boolean; // Filter low-confidence and disputed entities off the canvas
   
   // UI Actions
   setZoomLevel: (zoom: number) => void;
@@ -52,9 +93,16 @@ interface UISlice {
   toggleLegend: () => void;
   toggleSettings: () => void;
   toggleCorrelationPanel: () => void;
+  toggleUsagePanel: () => void;
+  toggleInquiryPanel: () => void;
+  toggleOntologyPanel: () => void;
+  toggleReviewPanel: () => void;
+  toggleLowConfidenceFilter: () => void;
   closeAllPanels: () => void;
   resetCameraSignal: number; // Increment to trigger camera reset
   triggerCameraReset: () => void;
+  cameraFocus: { nodeId: string; signal: number } | null; // New signal re-centres even on the same node
+  focusCamera: (nodeId: string) => void;
 }
 
 interface AISlice {
@@ -67,8 +115,45 @@ interface AISlice {
   setAIAutoMode: (enabled: boolean) => void;
   setAIProvider: (provider: string) => void;
   setAIModel: (model: string) => void;
+  setLocalEndpoint: (url: string) => void;
+  setFallbackPolicy: (policy: AIFallbackPolicy) => void;
+  setCacheTtl: (hours: number) => void;
+  setProviderMode: (mode: AIProviderMode) => void;
+  setCorrectiveRetry: (enabled: boolean) => void;
+  setVerificationPass: (enabled: boolean) => void;
+  setConsensusSize: (size: number) => void;
+  setRelationClassifier: (enabled: boolean) => void;
+  setMergePolicy: (policy: Partial<NodeMergePolicy>) => void;
+  setDuplicateBand: (band: SimilarityBand) => void;
+}
+
+// The graph before a manual change, for undo
+interface GraphSnapshot {
+  label: string; // What the change was, e.g. 'Merge 3 nodes'
+  nodes: ResearchNode[];
+  links: OptimizedConnection[];
+  mergeSuggestions: MergeSuggestion[];
 }
 
+const UNDO_LIMIT = 20;
+
+// Manual decisions are recorded in the node's provenance, next to the generations
+const stampManual = (nodes: ResearchNode[], id: string, change: string) =>
+  nodes.map(n => n.id === id ? { ...n, provenance: [...getProvenance(n), manualProvenance(change)] } : n);
+
+// Graphs saved before relations were normalized hold free-text wordings. Generated
+// links are canonicalized on load, leniently so no stored edge is dropped, and
+// wordings that now agree collapse into one edge. Hand-made or edited links keep
+// the predicate the user chose.
+const canonicalLinks = (links: OptimizedConnection[], ontology: Ontology) => {
+  const generated = links.filter(l => !l.provenance?.length);
+  const { data } = normalizeRelations({ nodes: [], links: generated }, { ...ontology, strict: false });
+  return rewireLinks([...links.filter(l => l.provenance?.length), ...data.links], id => id);
+};
+
+const ERROR_DISPLAY_MS = 3000; // How long a failed request shows ERROR before IDLE
+let errorTimer: ReturnType<typeof setTimeout> | undefined; // Cleared by the next request
+
 // -----------------------------------------------------------------------------
 // STORE IMPLEMENTATION
 // -----------------------------------------------------------------------------
@@ -80,27 +165,280 @@ export const usePrismStore = create<DataSlice & UISlice & AISlice>((set, get) =>
   links: INITIAL_LINKS,
   selectedNode: null,
   hoveredNode: null,
+  highlightedNodeIds: [],
+  ontology: DEFAULT_ONTOLOGY,
   status: AppStatus.IDLE,
   narrativeMode: false,
+  activeRequest: null,
+  pendingGraph: null,
+  mergeSuggestions: [],
+  distinctPairs: [],
+  markedNodeIds: [],
+  undoStack: [],
 
   setGraphData: (nodes, links) => set({ nodes, links }),
   
-  addGraphData: (newNodes, newLinks) => set((state) => {
+  addGraphData: (newNodes, newLinks) => {
     // Elegant merge strategy using the utility engine
-    const result = consolidateGraphData(state.nodes, state.links, newNodes, newLinks);
-    return { nodes: [...result.nodes], links: [...result.links] };
-  }),
+    const { nodes, links, selectedNode, aiSettings, mergeSuggestions, distinctPairs, undoStack } = get();
+    const result = consolidateGraphData(nodes, links, newNodes, newLinks, aiSettings.mergePolicy, {
+      band: aiSettings.duplicateBand,
+      distinct: new Set(distinctPairs.map(p => p.key))
+    });
+    // Merged nodes are new objects: the selection follows them, keeping its canvas position
+    const merged = selectedNode && result.nodes.find(n => n.id === selectedNode.id);
+    const queued = new Set(mergeSuggestions.map(s => s.id));
+    set({
+      nodes: result.nodes,
+      links: result.links,
+      selectedNode: merged ? { ...selectedNode, ...merged } : selectedNode,
+      mergeSuggestions: [...mergeSuggestions, ...result.suggestions.filter(s => !queued.has(s.id))],
+      // Undoable too, so undoing an earlier manual edit never discards research added since
+      undoStack: [...undoStack, { label: 'Integrate research', nodes, links, mergeSuggestions }].slice(-UNDO_LIMIT)
+    });
+    return result.conflicts;
+  },
+
+  updateNode: (id, changes) => set((state) => ({
+    nodes: state.nodes.map(n => n.id === id ? { ...n, ...changes } : n),
+    selectedNode: state.selectedNode?.id === id ? { ...state.selectedNode, ...changes } : state.selectedNode
+  })),
+
+  acceptMergeSuggestion: (id) => {
+    const { nodes, links, selectedNode, aiSettings, mergeSuggestions, undoStack } = get();
+    const suggestion = mergeSuggestions.find(s => s.id === id);
+    if (!suggestion) return;
+    const { keepId, mergeId } = suggestion;
+    const snapshot: GraphSnapshot = { label: 'Merge suggestion', nodes, links, mergeSuggestions };
+    const result = mergeNodeInto(nodes, links, keepId, mergeId, aiSettings.mergePolicy);
+    const mergedLabel = nodes.find(n => n.id === mergeId)?.label || mergeId;
+    result.nodes = stampManual(result.nodes, keepId, `merged ${mergedLabel} (suggestion)`);
+
+    // Other suggestions about the merged node now concern the node it went into
+    const remaining = new Map<string, MergeSuggestion>();
+    mergeSuggestions.filter(s => s.id !== id).forEach(s => {
+      const next = { ...s, keepId: s.keepId === mergeId ? keepId : s.keepId, mergeId: s.mergeId === mergeId ? keepId : s.mergeId };
+      next.id = `${next.keepId}|${next.mergeId}`;
+      if (next.keepId !== next.mergeId && !remaining.has(next.id)) remaining.set(next.id, next);
+    });
+
+    const kept = result.nodes.find(n => n.id === keepId);
+    const isSelected = selectedNode && (selectedNode.id === keepId || selectedNode.id === mergeId);
+    set({
+      nodes: result.nodes,
+      links: result.links,
+      mergeSuggestions: Array.from(remaining.values()),
+      selectedNode: isSelected && kept ? { ...selectedNode, ...kept } : selectedNode,
+      undoStack: [...undoStack, snapshot].slice(-UNDO_LIMIT)
+    });
+  },
+
+  rejectMergeSuggestion: (id) => set(state => ({ mergeSuggestions: state.mergeSuggestions.filter(s => s.id !== id) })),
+
+  markDistinct: async (id) => {
+    const { nodes, mergeSuggestions, distinctPairs } = get();
+    const suggestion = mergeSuggestions.find(s => s.id === id);
+    const keep = nodes.find(n => n.id === suggestion?.keepId);
+    const other = nodes.find(n => n.id === suggestion?.mergeId);
+    set({ mergeSuggestions: mergeSuggestions.filter(s => s.id !== id) });
+    if (!keep || !other) return;
+
+    const pair = distinctPair(keep.label, other.label);
+    set({ distinctPairs: [...distinctPairs.filter(p => p.key !== pair.key), pair] });
+    try {
+      await db.distinctPairs.put(pair);
+    } catch (e) {
+      console.error("[Store] Failed to remember distinct pair:", e);
+    }
+  },
+
+  toggleMarkedNode: (id) => set(state => ({
+    markedNodeIds: state.markedNodeIds.includes(id) ? state.markedNodeIds.filter(m => m !== id) : [...state.markedNodeIds, id]
+  })),
+
+  clearMarkedNodes: () => set({ markedNodeIds: [] }),
+
+  mergeMarkedNodes: (keepId) => {
+    const { nodes, links, markedNodeIds, selectedNode, aiSettings, mergeSuggestions, undoStack } = get();
+    const merging = markedNodeIds.filter(id => id !== keepId);
+    if (merging.length === 0) return;
+    const snapshot: GraphSnapshot = { label: `Merge ${merging.length + 1} nodes`, nodes, links, mergeSuggestions };
+
+    const result = merging.reduce(
+      (graph, mergeId) => mergeNodeInto(graph.nodes, graph.links, keepId, mergeId, aiSettings.mergePolicy),
+      { nodes, links }
+    );
+    const mergedLabels = merging.map(id => nodes.find(n => n.id === id)?.label || id);
+    result.nodes = stampManual(result.nodes, keepId, `merged ${mergedLabels.join(', ')}`);
+    const gone = new Set(merging);
+    const kept = result.nodes.find(n => n.id === keepId);
+    const isSelected = selectedNode && (selectedNode.id === keepId || gone.has(selectedNode.id));
+    set({
+      nodes: result.nodes,
+      links: result.links,
+      markedNodeIds: [],
+      // Suggestions about merged nodes are settled
+      mergeSuggestions: mergeSuggestions.filter(s => !gone.has(s.keepId) && !gone.has(s.mergeId)),
+      selectedNode: isSelected && kept ? { ...selectedNode, ...kept } : selectedNode,
+      undoStack: [...undoStack, snapshot].slice(-UNDO_LIMIT)
+    });
+  },
+
+  splitNode: (id, label, movedLinkKeys) => {
+    const { nodes, links, mergeSuggestions, selectedNode, undoStack } = get();
+    const original = nodes.find(n => n.id === id);
+    if (!original) return id;
+
+    const part: ResearchNode = {
+      id: uniqueNodeId(label, nodes),
+      label: label.trim(),
+      type: original.type,
+      groupLabel: original.groupLabel,
+      summary: '',
+      tags: [],
+      metrics: { ...original.metrics },
+      researchMetadata: manualProvenance(`split from ${original.id}`)
+    };
+    const result = splitNodeInGraph(nodes, links, id, part, new Set(movedLinkKeys));
+    // Both halves record the split: the new node its origin, the original what left it
+    const stamped = stampManual(result.nodes, id, `split off ${part.id}`);
+    const kept = stamped.find(n => n.id === id)!;
+    set({
+      nodes: stamped,
+      links: result.links,
+      markedNodeIds: [],
+      selectedNode: selectedNode?.id === id ? { ...selectedNode, ...kept } : selectedNode,
+      undoStack: [...undoStack, { label: `Split ${original.label}`, nodes, links, mergeSuggestions }].slice(-UNDO_LIMIT)
+    });
+    return part.id;
+  },
+
+  editNode: (id, changes) => {
+    const { nodes, links, mergeSuggestions, selectedNode, undoStack, distinctPairs } = get();
+    const node = nodes.find(n => n.id === id);
+    const fields = Object.keys(changes);
+    if (!node || fields.length === 0) return;
+
+    const edited: ResearchNode = {
+      ...node,
+      ...changes,
+      provenance: [...getProvenance(node), manualProvenance(`edited ${fields.join(', ')}`)]
+    };
+    set({
+      nodes: nodes.map(n => n.id === id ? edited : n),
+      selectedNode: selectedNode?.id === id ? { ...selectedNode, ...edited } : selectedNode,
+      undoStack: [...undoStack, { label: `Edit ${node.label}`, nodes, links, mergeSuggestions }].slice(-UNDO_LIMIT)
+    });
+
+    // Distinct decisions are keyed by label, so they must follow a rename
+    const renamed = changes.label ? renameDistinctPairs(distinctPairs, node.label, changes.label) : [];
+    if (renamed.length === 0) return;
+    set({ distinctPairs: [...distinctPairs, ...renamed] });
+    db.distinctPairs.bulkPut(renamed)
+      .catch(e => console.error("[Store] Failed to remember distinct pair:", e));
+  },
+
+  addLink: (source, target, relation, weight) => {
+    const { nodes, links, mergeSuggestions, ontology, undoStack } = get();
+    const link: OptimizedConnection = {
+      source,
+      target,
+      ...manualRelation(relation, ontology),
+      weight,
+      provenance: [manualProvenance('added')]
+    };
+    if (links.some(l => linkKey(l) === linkKey(link))) return false;
+
+    set({
+      links: [...links, link],
+      undoStack: [...undoStack, { label: 'Add link', nodes, links, mergeSuggestions }].slice(-UNDO_LIMIT)
+    });
+    return true;
+  },
+
+  editLink: (key, changes) => {
+    const { nodes, links, mergeSuggestions, ontology, undoStack } = get();
+    const link = links.find(l => linkKey(l) === key);
+    const fields = Object.keys(changes);
+    if (!link || fields.length === 0) return false;
+
+    let edited: OptimizedConnection = { ...link, weight: changes.weight ?? link.weight };
+    if (changes.relation !== undefined) {
+      const typed = manualRelation(changes.relation, ontology);
+      const { relationLabel, verification, ...rest } = edited;
+      // A different predicate is a different claim: the old verification does not cover it
+      edited = { ...rest, ...typed, ...(typed.relation === link.relation && verification ? { verification } : {}) };
+    }
+    edited.provenance = [...(link.provenance || []), manualProvenance(`edited ${fields.join(', ')}`)];
+
+    const editedKey = linkKey(edited);
+    if (editedKey !== key && links.some(l => linkKey(l) === editedKey)) return false;
+    set({
+      links: links.map(l => l === link ? edited : l),
+      undoStack: [...undoStack, { label: 'Edit link', nodes, links, mergeSuggestions }].slice(-UNDO_LIMIT)
+    });
+    return true;
+  },
+
+  removeLink: (key) => {
+    const { nodes, links, mergeSuggestions, undoStack } = get();
+    if (!links.some(l => linkKey(l) === key)) return;
+    set({
+      links: links.filter(l => linkKey(l) !== key),
+      undoStack: [...undoStack, { label: 'Delete link', nodes, links, mergeSuggestions }].slice(-UNDO_LIMIT)
+    });
+  },
+
+  undo: () => {
+    const { undoStack, selectedNode, activeRequest } = get();
+    const snapshot = undoStack[undoStack.length - 1];
+    // A running request may still write into the graph it integrated (e.g. summary rewrites)
+    if (!snapshot || activeRequest) return;
+    const restored = selectedNode && snapshot.nodes.find(n => n.id === selectedNode.id);
+    set({
+      nodes: snapshot.nodes,
+      links: snapshot.links,
+      mergeSuggestions: snapshot.mergeSuggestions,
+      markedNodeIds: [],
+      selectedNode: restored ? { ...selectedNode, ...restored } : null,
+      undoStack: undoStack.slice(0, -1)
+    });
+  },
 
   selectNode: (node) => set({ selectedNode: node }),
   setHoveredNode: (node) => set({ hoveredNode: node }),
+  setHighlightedNodes: (highlightedNodeIds) => set({ highlightedNodeIds }),
+  setOntology: (ontology) => set({ ontology }),
   setStatus: (status) => set({ status }),
   toggleNarrativeMode: () => set((state) => ({ narrativeMode: !state.narrativeMode })),
 
+  beginRequest: () => {
+    get().activeRequest?.abort(); // Only one research request runs at a time
+    clearTimeout(errorTimer);
+    const controller = new AbortController();
+    set({ activeRequest: controller, status: AppStatus.GENERATING });
+    return controller.signal;
+  },
+
+  cancelRequest: () => {
+    get().activeRequest?.abort();
+    set({ activeRequest: null, pendingGraph: null, status: AppStatus.IDLE });
+  },
+
+  // A superseded or cancelled request no longer owns the status
+  endRequest: (signal, outcome = AppStatus.IDLE) => {
+    if (get().activeRequest?.signal !== signal) return;
+    set({ activeRequest: null, status: outcome });
+    if (outcome === AppStatus.ERROR) errorTimer = setTimeout(() => set({ status: AppStatus.IDLE }), ERROR_DISPLAY_MS);
+  },
+  setPendingGraph: (pendingGraph) => set({ pendingGraph }),
+
   loadFromDb: async () => {
     try {
+      const ontology = await ontologyLibrary.getActive();
       const nodes = await db.nodes.toArray();
       const links = await db.links.toArray();
-      
+
       if (nodes.length > 0) {
         // Hydrate legacy nodes with default metadata if missing
         const hydratedNodes = nodes.map(n => ({
@@ -111,21 +449,28 @@ export const usePrismStore = create<DataSlice & UISlice & AISlice>((set, get) =>
             timestamp: Date.now()
           }
         }));
-        set({ nodes: hydratedNodes, links });
+        set({ nodes: hydratedNodes, links: canonicalLinks(links, ontology) });
       }
+      set({
+        ontology,
+        mergeSuggestions: await db.mergeSuggestions.toArray(),
+        distinctPairs: await db.distinctPairs.toArray()
+      });
     } catch (e) {
       console.error("[Store] DB Load Failed:", e);
     }
   },
 
   saveToDb: async () => {
-    const { nodes, links } = get();
+    const { nodes, links, mergeSuggestions } = get();
     try {
       await db.nodes.clear(); 
       await db.links.clear();
       await db.nodes.bulkPut(nodes); 
       // Cast links to satisfy Dexie indexing if needed
       await db.links.bulkPut(links as OptimizedConnection[]); 
+      await db.mergeSuggestions.clear();
+      await db.mergeSuggestions.bulkPut(mergeSuggestions);
     } catch (e) {
       console.error("[Store] DB Save Failed:", e);
     }
@@ -137,10 +482,16 @@ export const usePrismStore = create<DataSlice & UISlice & AISlice>((set, get) =>
     isResearchPanelOpen: true,
     isLegendOpen: true,
     isSettingsOpen: false,
-    isCorrelationPanelOpen: false
+    isCorrelationPanelOpen: false,
+    isUsagePanelOpen: false,
+    isInquiryPanelOpen: false,
+    isOntologyPanelOpen: false,
+    isReviewPanelOpen: false
   },
   zoomLevel: 1,
+  hideLowConfidence: false,
   resetCameraSignal: 0,
+  cameraFocus: null,
 
   setZoomLevel: (zoomLevel) => set({ zoomLevel }),
   toggleSidebar: () => set(state => ({ ui: { ...state.ui, isSidebarOpen: !state.ui.isSidebarOpen } })),
@@ -148,6 +499,11 @@ export const usePrismStore = create<DataSlice & UISlice & AISlice>((set, get) =>
   toggleLegend: () => set(state => ({ ui: { ...state.ui, isLegendOpen: !state.ui.isLegendOpen } })),
   toggleSettings: () => set(state => ({ ui: { ...state.ui, isSettingsOpen: !state.ui.isSettingsOpen } })),
   toggleCorrelationPanel: () => set(state => ({ ui: { ...state.ui, isCorrelationPanelOpen: !state.ui.isCorrelationPanelOpen } })),
+  toggleUsagePanel: () => set(state => ({ ui: { ...state.ui, isUsagePanelOpen: !state.ui.isUsagePanelOpen } })),
+  toggleInquiryPanel: () => set(state => ({ ui: { ...state.ui, isInquiryPanelOpen: !state.ui.isInquiryPanelOpen } })),
+  toggleOntologyPanel: () => set(state => ({ ui: { ...state.ui, isOntologyPanelOpen: !state.ui.isOntologyPanelOpen } })),
+  toggleReviewPanel: () => set(state => ({ ui: { ...state.ui, isReviewPanelOpen: !state.ui.isReviewPanelOpen } })),
+  toggleLowConfidenceFilter: () => set(state => ({ hideLowConfidence: !state.hideLowConfidence })),
   
   closeAllPanels: () => set(state => ({ 
     ui: { 
@@ -155,17 +511,32 @@ export const usePrismStore = create<DataSlice & UISlice & AISlice>((set, get) =>
       isResearchPanelOpen: false, 
       isLegendOpen: false, 
       isSettingsOpen: false, 
-      isCorrelationPanelOpen: false 
+      isCorrelationPanelOpen: false,
+      isUsagePanelOpen: false,
+      isInquiryPanelOpen: false,
+      isOntologyPanelOpen: false,
+      isReviewPanelOpen: false
     } 
   })),
 
   triggerCameraReset: () => set(state => ({ resetCameraSignal: state.resetCameraSignal + 1 })),
+  focusCamera: (nodeId) => set(state => ({ cameraFocus: { nodeId, signal: (state.cameraFocus?.signal || 0) + 1 } })),
 
   // --- AI SLICE ---
   aiSettings: {
     autoMode: true,
+    fallbackPolicy: 'ANY',
     selectedProvider: 'Gemini',
-    selectedModel: 'gemini-2.5-flash'
+    selectedModel: 'gemini-2.5-flash',
+    localEndpoint: process.env.LOCAL_AI_BASE_URL || 'http://localhost:11434',
+    cacheTtlHours: 24,
+    providerMode: 'LIVE',
+    correctiveRetry: true,
+    verificationPass: false,
+    consensusSize: 1,
+    relationClassifier: false,
+    mergePolicy: DEFAULT_MERGE_POLICY,
+    duplicateBand: DEFAULT_DUPLICATE_BAND
   },
   activeProvider: 'Gemini',
   providerStats: { 
@@ -173,6 +544,8 @@ export const usePrismStore = create<DataSlice & UISlice & AISlice>((set, get) =>
     activeModel: 'gemini-2.5-flash', 
     totalRemaining: 150000, 
     totalMax: 150000, 
+    promptTokens: 0,
+    completionTokens: 0,
     status: 'ACTIVE',
     models: [
       { id: 'gemini-2.0-flash-thinking-exp-1219', name: 'Flash Thinking', type: 'heavy', remainingTokens: 50000, maxTokens: 50000 },
@@ -184,5 +557,19 @@ export const usePrismStore = create<DataSlice & UISlice & AISlice>((set, get) =>
   setAIAutoMode: (enabled) => set(state => ({ aiSettings: { ...state.aiSettings, autoMode: enabled } })),
   setAIProvider: (provider) => set(state => ({ aiSettings: { ...state.aiSettings, selectedProvider: provider } })),
   setAIModel: (model) => set(state => ({ aiSettings: { ...state.aiSettings, selectedModel: model } })),
+  setLocalEndpoint: (url) => set(state => ({ aiSettings: { ...state.aiSettings, localEndpoint: url } })),
+  setFallbackPolicy: (policy) => set(state => ({ aiSettings: { ...state.aiSettings, fallbackPolicy: policy } })),
+  setCacheTtl: (hours) => set(state => ({ aiSettings: { ...state.aiSettings, cacheTtlHours: Math.max(0, hours) } })),
+  setProviderMode: (mode) => set(state => ({ aiSettings: { ...state.aiSettings, providerMode: mode } })),
+  setCorrectiveRetry: (enabled) => set(state => ({ aiSettings: { ...state.aiSettings, correctiveRetry: enabled } })),
+  setVerificationPass: (enabled) => set(state => ({ aiSettings: { ...state.aiSettings, verificationPass: enabled } })),
+  setConsensusSize: (size) => set(state => ({ aiSettings: { ...state.aiSettings, consensusSize: Math.max(1, size) } })),
+  setRelationClassifier: (enabled) => set(state => ({ aiSettings: { ...state.aiSettings, relationClassifier: enabled } })),
+  setMergePolicy: (policy) => set(state => ({ aiSettings: { ...state.aiSettings, mergePolicy: { ...state.aiSettings.mergePolicy, ...policy } } })),
+  setDuplicateBand: ({ min, max }) => {
+    if (!Number.isFinite(min) || !Number.isFinite(max)) return;
+    const low = Math.max(MIN_DUPLICATE_SIMILARITY, Math.min(min, max));
+    set(state => ({ aiSettings: { ...state.aiSettings, duplicateBand: { min: low, max: Math.min(1, Math.max(low, max)) } } }));
+  },
 
 }));
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AIProviderError, classifyHttpError, classifyError, parseRetryAfter, withRetry } from '../services/aiErrors';
+
+describe('classifyHttpError', () => {
+  it('maps statuses to error kinds', () => {
+    expect(classifyHttpError('OpenAI', 401, 'bad key').kind).toBe('AUTH');
+    expect(classifyHttpError('OpenAI', 402, '').kind).toBe('QUOTA');
+    expect(classifyHttpError('OpenAI', 504, '').kind).toBe('TIMEOUT');
+    expect(classifyHttpError('OpenAI', 500, '').kind).toBe('NETWORK');
+  });
+
+  it('tells an exhausted quota from a rate limit on 429', () => {
+    expect(classifyHttpError('OpenAI', 429, 'You exceeded your current quota').kind).toBe('QUOTA');
+
+    const limited = classifyHttpError('OpenAI', 429, 'Too many requests', '7');
+    expect(limited.kind).toBe('RATE_LIMITED');
+    expect(limited.retryAfterMs).toBe(7000);
+  });
+
+  it('reads Retry-After as seconds or as an HTTP date', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(55000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('classifyError', () => {
+  it('treats an aborted signal as a cancellation whatever was thrown', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(classifyError('Gemini', new Error('socket closed'), controller.signal).kind).toBe('ABORTED');
+  });
+
+  it('reads syntax errors as PARSE and anything else as NETWORK', () => {
+    expect(classifyError('Gemini', new SyntaxError('Unexpected token')).kind).toBe('PARSE');
+    expect(classifyError('Gemini', new TypeError('fetch failed')).kind).toBe('NETWORK');
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('retries transient failures with backoff, honouring Retry-After', async () => {
+    vi.useFakeTimers();
+    const onRetry = vi.fn();
+    const task = vi.fn()
+      .mockRejectedValueOnce(new AIProviderError('RATE_LIMITED', 'Claude', 'slow down', { retryAfterMs: 5000 }))
+      .mockResolvedValueOnce('ok');
+
+    const result = withRetry('Claude', task, onRetry);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(await result).toBe('ok');
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ kind: 'RATE_LIMITED' }), 1, 5000);
+  });
+
+  it('does not retry failures that will not fix themselves', async () => {
+    const task = vi.fn().mockRejectedValue(new AIProviderError('AUTH', 'Claude', 'bad key'));
+
+    await expect(withRetry('Claude', task)).rejects.toMatchObject({ kind: 'AUTH' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the policy\'s retries', async () => {
+    vi.useFakeTimers();
+    const task = vi.fn().mockRejectedValue(new SyntaxError('Unexpected end of JSON'));
+
+    const result = withRetry('Claude', task);
+    const settled = expect(result).rejects.toMatchObject({ kind: 'PARSE' });
+    await vi.advanceTimersByTimeAsync(1000);
+    await settled;
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops waiting when the request is cancelled', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new AIProviderError('NETWORK', 'Claude', 'reset'));
+
+    const result = withRetry('Claude', task, () => controller.abort(), controller.signal);
+    await expect(result).rejects.toMatchObject({ kind: 'ABORTED' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
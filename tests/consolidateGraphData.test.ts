@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeGraphData } from '../services/aiService';
+import { consolidateGraphData, distinctKey, distinctPair, renameDistinctPairs, linkKey, DEFAULT_DUPLICATE_BAND } from '../utils/graphUtils';
+import { DEFAULT_ONTOLOGY } from '../utils/ontology';
+import { replayGraph } from './replay';
+
+const topic = sanitizeGraphData(replayGraph('Research topic: "Cold War"'), DEFAULT_ONTOLOGY);
+const expansion = sanitizeGraphData(replayGraph('Expand node: "Soviet Union"'), DEFAULT_ONTOLOGY);
+const existing = consolidateGraphData([], [], topic.nodes, topic.links);
+
+describe('consolidateGraphData', () => {
+  it('merges rediscovered entities by label and alias without mutating the inputs', () => {
+    const before = structuredClone(existing.nodes);
+    const result = consolidateGraphData(existing.nodes, existing.links, expansion.nodes, expansion.links);
+
+    expect(result.idMap.get('ussr')).toBe('soviet_union');
+    expect(result.idMap.get('cold_war_era')).toBe('cold_war');
+    expect(result.nodes.find(n => n.id === 'soviet_union')!.aliases).toEqual(['USSR', 'Soviet Russia']);
+    expect(existing.nodes).toEqual(before);
+  });
+
+  it('re-wires incoming links and merges edges that already exist', () => {
+    const result = consolidateGraphData(existing.nodes, existing.links, expansion.nodes, expansion.links);
+    const keys = result.links.map(linkKey);
+
+    expect(keys).toContain('soviet_union|CAUSED|berlin_blockade');
+    expect(keys).toContain('berlin_blockade|PART_OF|cold_war');
+    expect(keys.filter(k => k === 'soviet_union|PARTICIPATED_IN|cold_war')).toHaveLength(1);
+    expect(result.links.find(l => linkKey(l) === 'soviet_union|PARTICIPATED_IN|cold_war')!.weight).toBe(1);
+  });
+
+  it('keeps borderline matches apart under review, and never suggests distinct pairs', () => {
+    const withIraq = consolidateGraphData(existing.nodes, existing.links, expansion.nodes.filter(n => n.id === 'iraq'), []);
+    const review = { band: { ...DEFAULT_DUPLICATE_BAND, min: 0.3 }, distinct: new Set<string>() };
+
+    const suggested = consolidateGraphData(withIraq.nodes, withIraq.links, expansion.nodes.filter(n => n.id === 'iran'), [], undefined, review);
+    expect(suggested.nodes.map(n => n.id)).toContain('iran');
+    expect(suggested.suggestions).toEqual([expect.objectContaining({ keepId: 'iraq', mergeId: 'iran' })]);
+
+    review.distinct.add(distinctKey('Iraq', 'Iran'));
+    const distinct = consolidateGraphData(withIraq.nodes, withIraq.links, expansion.nodes.filter(n => n.id === 'iran'), [], undefined, review);
+    expect(distinct.suggestions).toEqual([]);
+  });
+
+  it('carries distinct pairs over to a renamed node', () => {
+    const pairs = [distinctPair('Iraq', 'Iran'), distinctPair('USSR', 'Russia')];
+    const renamed = renameDistinctPairs(pairs, 'iraq', 'Republic of Iraq');
+
+    expect(renamed.map(p => p.key)).toEqual([distinctKey('Republic of Iraq', 'Iran')]);
+    expect(renameDistinctPairs([...pairs, ...renamed], 'Iraq', 'Republic of Iraq')).toEqual([]);
+  });
+});
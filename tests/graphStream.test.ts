@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { GraphStreamParser } from '../utils/graphStream';
+
+const payload = '```json\n' + JSON.stringify({
+  nodes: [
+    { id: 'cold_war', label: 'Cold War', summary: 'A "cold" {conflict} [1947-1991]', metrics: { significance: 10 } },
+    { id: 'berlin_wall', label: 'Berlin Wall', metrics: { significance: 8 } }
+  ],
+  links: [{ source: 'berlin_wall', target: 'cold_war', relation: 'PART_OF', weight: 0.9 }]
+}) + '\n```';
+
+describe('GraphStreamParser', () => {
+  it('emits each entity once it is complete, however the text is chunked', () => {
+    const parser = new GraphStreamParser();
+    const completedAt: number[] = [];
+    for (let end = 1; end <= payload.length; end += 7) {
+      if (parser.update(payload.slice(0, end))) completedAt.push(end);
+    }
+    parser.update(payload);
+
+    const { nodes, links } = parser.snapshot;
+    expect(nodes.map(n => n.id)).toEqual(['cold_war', 'berlin_wall']);
+    expect(nodes[0].summary).toBe('A "cold" {conflict} [1947-1991]');
+    expect(nodes[0].metrics).toEqual({ significance: 10 });
+    expect(links).toEqual([expect.objectContaining({ source: 'berlin_wall', relation: 'PART_OF' })]);
+    expect(completedAt.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('holds back an entity until its closing brace arrives', () => {
+    const parser = new GraphStreamParser();
+    const cut = payload.indexOf('"metrics"');
+
+    expect(parser.update(payload.slice(0, cut))).toBe(false);
+    expect(parser.snapshot.nodes).toEqual([]);
+  });
+
+  it('restarts when the text no longer extends the previous feed', () => {
+    const parser = new GraphStreamParser();
+    parser.update(payload);
+    parser.update('{"nodes": [{"id": "iran", "label": "Iran"}');
+
+    expect(parser.snapshot.nodes.map(n => n.id)).toEqual(['iran']);
+    expect(parser.snapshot.links).toEqual([]);
+  });
+
+  it('skips entities without the fields that identify them', () => {
+    const parser = new GraphStreamParser();
+    parser.update('{"nodes": [{"label": "No id"}], "links": [{"source": "a"}], "meta": {"nodes": 1}}');
+
+    expect(parser.snapshot).toEqual({ nodes: [], links: [] });
+  });
+});
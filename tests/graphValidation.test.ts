@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { Schema, Type } from '@google/genai';
+import { validateResponse, describeSchema } from '../utils/graphValidation';
+
+const schema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    items: {
+      type: Type.ARRAY,
+      default: [],
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          weight: { type: Type.NUMBER, minimum: 0, maximum: 1, default: 0.5 },
+          rank: { type: Type.INTEGER, minimum: 1, maximum: 10 },
+          verdict: { type: Type.STRING, enum: ['CONFIRMED', 'DISPUTED'] },
+          tags: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ['id', 'weight']
+      }
+    }
+  },
+  required: ['items']
+};
+
+const validate = (items: unknown[]) => validateResponse<{ items: Record<string, unknown>[] }>({ items }, schema);
+
+describe('validateResponse', () => {
+  it('coerces numeric strings and clamps numbers to the schema range', () => {
+    const { data, issues } = validate([{ id: 'a', weight: '0.4', rank: 12.6 }, { id: 'b', weight: 3 }]);
+
+    expect(data.items[0]).toMatchObject({ weight: 0.4, rank: 10 });
+    expect(data.items[1].weight).toBe(1);
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'items[0].weight', action: 'coerced' }));
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'items[1].weight', message: '3 clamped to 1' }));
+  });
+
+  it('matches enums case-insensitively and wraps scalars meant as arrays', () => {
+    const { data } = validate([{ id: 'a', weight: 1, verdict: 'disputed', tags: 'war' }]);
+    expect(data.items[0]).toMatchObject({ verdict: 'DISPUTED', tags: ['war'] });
+  });
+
+  it('repairs missing required values from defaults and drops bad optional ones', () => {
+    const { data, issues } = validate([{ id: 'a', verdict: 'maybe' }]);
+
+    expect(data.items[0].weight).toBe(0.5);
+    expect(data.items[0]).not.toHaveProperty('verdict');
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'items[0].weight', action: 'repaired' }));
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'items[0].verdict', action: 'coerced' }));
+  });
+
+  it('drops unrepairable items but keeps the array', () => {
+    const { data, issues } = validate([{ weight: 1 }, { id: 'b', weight: 1 }]);
+
+    expect(data.items.map(item => item.id)).toEqual(['b']);
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'items[0]', action: 'rejected' }));
+  });
+
+  it('throws when the payload cannot be salvaged', () => {
+    expect(() => validateResponse([], schema)).toThrow(SyntaxError);
+  });
+
+  it('describes a schema as a prompt template', () => {
+    expect(describeSchema(schema)).toBe('{ "items": [{ "id": string, "weight": number 0-1, "rank"?: number 1-10, "verdict"?: "CONFIRMED" | "DISPUTED", "tags"?: [string] }] }');
+  });
+});
@@ -0,0 +1,124 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { db } from '../db';
+import { usePrismStore } from '../store/prismStore';
+import { linkKey, manualEdits, distinctPair, distinctKey } from '../utils/graphUtils';
+import { OptimizedConnection, ResearchNode } from '../types/prism';
+
+const node = (id: string, label: string, changes: Partial<ResearchNode> = {}): ResearchNode =>
+  ({ id, label, type: 'Country', summary: '', groupLabel: 'Place', tags: [], metrics: { significance: 5 }, ...changes });
+
+const link = (source: string, relation: string, target: string): OptimizedConnection => ({ source, target, relation, weight: 0.5 });
+
+const store = () => usePrismStore.getState();
+const byId = (id: string) => store().nodes.find(n => n.id === id)!;
+
+beforeEach(() => {
+  usePrismStore.setState({
+    nodes: [node('ussr', 'USSR', { tags: ['communism'] }), node('soviet_union', 'Soviet Union', { tags: ['cold war'] }), node('usa', 'USA')],
+    links: [link('ussr', 'OPPOSED', 'usa'), link('usa', 'OPPOSED', 'soviet_union'), link('soviet_union', 'OPPOSED', 'usa')],
+    markedNodeIds: [],
+    mergeSuggestions: [],
+    distinctPairs: [],
+    undoStack: [],
+    selectedNode: null,
+    activeRequest: null
+  });
+});
+
+describe('manual merge', () => {
+  it('folds marked nodes into the kept one, re-pointing links and stamping provenance', () => {
+    store().toggleMarkedNode('soviet_union');
+    store().toggleMarkedNode('ussr');
+    store().mergeMarkedNodes('soviet_union');
+
+    expect(store().nodes.map(n => n.id)).toEqual(['soviet_union', 'usa']);
+    expect(byId('soviet_union').tags).toEqual(['cold war', 'communism']);
+    expect(store().links.map(linkKey)).toEqual(['soviet_union|OPPOSED|usa', 'usa|OPPOSED|soviet_union']);
+    expect(manualEdits(byId('soviet_union').provenance).map(e => e.change)).toEqual(['merged USSR']);
+    expect(store().markedNodeIds).toEqual([]);
+  });
+});
+
+describe('split', () => {
+  it('moves the chosen links to a new node and stamps both halves', () => {
+    const id = store().splitNode('soviet_union', 'Russia', ['soviet_union|OPPOSED|usa']);
+
+    expect(id).toBe('russia');
+    expect(store().links.map(linkKey)).toContain('russia|OPPOSED|usa');
+    expect(store().links.map(linkKey)).toContain('usa|OPPOSED|soviet_union');
+    expect(byId('russia').researchMetadata).toMatchObject({ provider: 'Manual', change: 'split from soviet_union' });
+    expect(manualEdits(byId('soviet_union').provenance).map(e => e.change)).toEqual(['split off russia']);
+  });
+});
+
+describe('undo', () => {
+  it('restores the graph as it was before the last manual change', () => {
+    const before = { nodes: store().nodes, links: store().links };
+    store().splitNode('usa', 'United States', []);
+    store().undo();
+
+    expect(store().nodes).toBe(before.nodes);
+    expect(store().links).toBe(before.links);
+    expect(store().undoStack).toEqual([]);
+  });
+
+  it('does nothing while a request is running', () => {
+    store().splitNode('usa', 'United States', []);
+    usePrismStore.setState({ activeRequest: new AbortController() });
+    store().undo();
+
+    expect(byId('united_states')).toBeDefined();
+    expect(store().undoStack).toHaveLength(1);
+  });
+});
+
+describe('manual editing', () => {
+  it('stamps node edits with what changed and carries distinct pairs across a rename', async () => {
+    usePrismStore.setState({ distinctPairs: [distinctPair('USA', 'USSR')] });
+    store().editNode('usa', { label: 'United States', summary: 'Superpower' });
+
+    expect(byId('usa')).toMatchObject({ label: 'United States', summary: 'Superpower' });
+    expect(manualEdits(byId('usa').provenance)).toEqual([expect.objectContaining({ model: '', change: 'edited label, summary' })]);
+    expect(store().distinctPairs.map(p => p.key)).toEqual([distinctKey('USA', 'USSR'), distinctKey('United States', 'USSR')]);
+    await vi.waitFor(async () => expect(await db.distinctPairs.get(distinctKey('United States', 'USSR'))).toBeDefined());
+  });
+
+  it('adds links with a canonical relation and refuses duplicates', () => {
+    expect(store().addLink('usa', 'ussr', 'rival of', 0.8)).toBe(true);
+    expect(store().addLink('usa', 'ussr', 'OPPOSED', 0.3)).toBe(false);
+
+    const added = store().links.find(l => linkKey(l) === 'usa|OPPOSED|ussr')!;
+    expect(added).toMatchObject({ relationLabel: 'rival of', weight: 0.8 });
+    expect(manualEdits(added.provenance).map(e => e.change)).toEqual(['added']);
+  });
+
+  it('edits a link, dropping a verification the new predicate does not share', () => {
+    usePrismStore.setState({ links: store().links.map(l => ({ ...l, verification: { verdict: 'CONFIRMED' as const, confidence: 0.9, provider: 'Claude', model: 'claude', checkedAt: 0 } })) });
+
+    expect(store().editLink('soviet_union|OPPOSED|usa', { relation: 'allied with', weight: 0.2 })).toBe(true);
+    expect(store().editLink('ussr|OPPOSED|usa', { weight: 0.9 })).toBe(true);
+
+    const byKey = (key: string) => store().links.find(l => linkKey(l) === key)!;
+    expect(byKey('soviet_union|ALLIED_WITH|usa')).toMatchObject({ relationLabel: 'allied with', weight: 0.2 });
+    expect(byKey('soviet_union|ALLIED_WITH|usa')).not.toHaveProperty('verification');
+    expect(byKey('ussr|OPPOSED|usa').verification).toBeDefined();
+    expect(manualEdits(byKey('ussr|OPPOSED|usa').provenance).map(e => e.change)).toEqual(['edited weight']);
+  });
+
+  it('refuses a link edit that would duplicate another edge', () => {
+    expect(store().editLink('usa|OPPOSED|soviet_union', {})).toBe(false);
+    store().addLink('soviet_union', 'usa', 'allied with', 0.5);
+
+    expect(store().editLink('soviet_union|OPPOSED|usa', { relation: 'ALLIED_WITH' })).toBe(false);
+    expect(store().links.map(linkKey)).toContain('soviet_union|OPPOSED|usa');
+  });
+
+  it('removes links as an undoable change', () => {
+    store().removeLink('ussr|OPPOSED|usa');
+    expect(store().links.map(linkKey)).not.toContain('ussr|OPPOSED|usa');
+
+    store().undo();
+    expect(store().links.map(linkKey)).toContain('ussr|OPPOSED|usa');
+  });
+});
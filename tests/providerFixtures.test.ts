@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { providerFixtures, parseFixtureFile } from '../services/providerFixtures';
+import { ProviderFixture } from '../types/prism';
+
+const fixture = (changes: Partial<ProviderFixture>): ProviderFixture =>
+  ({ provider: 'Gemini', model: 'gemini-2.5-flash', prompt: 'Research topic: "Cold War"', request: {}, response: '{}', recordedAt: 0, ...changes });
+
+describe('providerFixtures', () => {
+  beforeEach(() => providerFixtures.clear());
+
+  it('keys fixtures by system prompt as well as prompt', () => {
+    providerFixtures.add(fixture({ response: 'default' }));
+    providerFixtures.add(fixture({ system: 'Answer as a historian.', response: 'historian' }));
+
+    expect(providerFixtures.find('Research topic: "Cold War"')!.response).toBe('default');
+    expect(providerFixtures.find('Research topic: "Cold War"', undefined, 'Answer as a historian.')!.response).toBe('historian');
+    expect(providerFixtures.find('Research topic: "Cold War"', undefined, 'Answer as a lawyer.')).toBeUndefined();
+  });
+
+  it('replaces an older recording and prefers the requested model', () => {
+    providerFixtures.add(fixture({ response: 'first' }));
+    providerFixtures.add(fixture({ response: 'second' }));
+    providerFixtures.add(fixture({ model: 'gpt-4o', provider: 'OpenAI', response: 'openai' }));
+
+    expect(providerFixtures.count).toBe(2);
+    expect(providerFixtures.find('Research  topic: "Cold War" ')!.response).toBe('openai');
+    expect(providerFixtures.find('Research topic: "Cold War"', 'gemini-2.5-flash')!.response).toBe('second');
+  });
+
+  it('rejects files of another version or with malformed entries', () => {
+    expect(() => parseFixtureFile(JSON.stringify({ version: 2, fixtures: [] }))).toThrow('version');
+    expect(() => parseFixtureFile(JSON.stringify({ version: 1, fixtures: [{ ...fixture({}), system: 3 }] }))).toThrow('malformed');
+  });
+});
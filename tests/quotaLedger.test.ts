@@ -0,0 +1,49 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { db } from '../db';
+import { quotaLedger, getWindowStart } from '../services/quotaLedger';
+import { AIModel, AIProvider, QuotaPolicy } from '../types/prism';
+
+const policy = (changes: Partial<QuotaPolicy>): QuotaPolicy => ({ provider: 'OpenAI', window: 'monthly', rollingHours: 24, budgets: {}, ...changes });
+
+describe('getWindowStart', () => {
+  const now = new Date(2026, 4, 17, 15, 30).getTime();
+
+  it('starts daily windows at local midnight and monthly ones on the 1st', () => {
+    expect(getWindowStart(policy({ window: 'daily' }), now)).toBe(new Date(2026, 4, 17).getTime());
+    expect(getWindowStart(policy({ window: 'monthly' }), now)).toBe(new Date(2026, 4, 1).getTime());
+  });
+
+  it('reaches back rollingHours for rolling windows', () => {
+    expect(getWindowStart(policy({ window: 'rolling', rollingHours: 6 }), now)).toBe(now - 6 * 60 * 60 * 1000);
+  });
+});
+
+describe('quotaLedger', () => {
+  it('keeps the saved budgets of other models on the first budget edit', async () => {
+    await db.quotaPolicies.put(policy({ budgets: { 'gpt-4o': 1000 } }));
+    await quotaLedger.setBudget('OpenAI', 'gpt-4o-mini', 500);
+
+    expect((await db.quotaPolicies.get('OpenAI'))!.budgets).toEqual({ 'gpt-4o': 1000, 'gpt-4o-mini': 500 });
+  });
+
+  it('rebuilds model counters from the usage recorded in the window', async () => {
+    const model: AIModel = { id: 'gpt-4o', name: 'GPT-4o', type: 'heavy', remainingTokens: 0, maxTokens: 0 };
+    await quotaLedger.record('OpenAI', 'gpt-4o', { promptTokens: 100, completionTokens: 50 });
+    await quotaLedger.record('OpenAI', 'gpt-4o', { promptTokens: 20, completionTokens: 5 });
+    await quotaLedger.syncProviders([{ name: 'OpenAI', models: [model] } as AIProvider]);
+
+    expect(model).toMatchObject({ maxTokens: 1000, promptTokens: 120, completionTokens: 55, remainingTokens: 825 });
+  });
+
+  it('groups history by session, newest first, up to the limit', async () => {
+    await db.usage.bulkAdd([
+      { sessionId: 'old', provider: 'Claude', model: 'm', promptTokens: 1, completionTokens: 1, timestamp: 1 },
+      { sessionId: 'older', provider: 'Claude', model: 'm', promptTokens: 1, completionTokens: 1, timestamp: 0 }
+    ]);
+
+    const history = await quotaLedger.getHistory(2);
+    expect(history.map(s => s.sessionId)).toEqual([quotaLedger.sessionId, 'old']);
+    expect(history[0]).toMatchObject({ promptTokens: 120, completionTokens: 55 });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalizeRelation, normalizeRelations, manualRelation, CANONICAL_PREDICATES } from '../utils/relations';
+import { DEFAULT_ONTOLOGY } from '../utils/ontology';
+import { GraphData, Ontology } from '../types/prism';
+
+const constrained: Ontology = { ...DEFAULT_ONTOLOGY, relations: ['LEADER_OF', 'PART_OF', 'RELATED_TO'] };
+
+const graph = (...relations: string[]): GraphData => ({
+  nodes: [],
+  links: relations.map(relation => ({ source: 'a', target: 'b', relation, weight: 0.5 }))
+});
+
+describe('canonicalizeRelation', () => {
+  it('maps predicates, synonyms and auxiliary phrasings onto the vocabulary', () => {
+    expect(canonicalizeRelation('part_of', CANONICAL_PREDICATES)).toBe('PART_OF');
+    expect(canonicalizeRelation('was leader of', CANONICAL_PREDICATES)).toBe('LEADER_OF');
+    expect(canonicalizeRelation('Has been allied with', CANONICAL_PREDICATES)).toBe('ALLIED_WITH');
+  });
+
+  it('accepts near-spellings but never reads a passive form as its active one', () => {
+    expect(canonicalizeRelation('PRECEEDED', CANONICAL_PREDICATES)).toBe('PRECEDED');
+    expect(canonicalizeRelation('FOUNDED_BY', CANONICAL_PREDICATES)).toBeUndefined();
+  });
+
+  it('only answers with predicates in the given vocabulary', () => {
+    expect(canonicalizeRelation('founded', constrained.relations)).toBeUndefined();
+  });
+});
+
+describe('normalizeRelations', () => {
+  it('keeps the model wording as relationLabel', () => {
+    const { data, issues } = normalizeRelations(graph('was leader of', 'PART_OF'), DEFAULT_ONTOLOGY);
+
+    expect(data.links.map(l => [l.relation, l.relationLabel])).toEqual([['LEADER_OF', 'was leader of'], ['PART_OF', undefined]]);
+    expect(issues).toEqual([]);
+  });
+
+  it('keeps unknown wordings as predicates of their own without an ontology vocabulary', () => {
+    const { data } = normalizeRelations(graph('negotiated with'), DEFAULT_ONTOLOGY);
+    expect(data.links[0].relation).toBe('NEGOTIATED_WITH');
+  });
+
+  it('uses classifier answers before falling back', () => {
+    const { data } = normalizeRelations(graph('governed'), constrained, { governed: 'LEADER_OF' });
+    expect(data.links[0]).toMatchObject({ relation: 'LEADER_OF', relationLabel: 'governed' });
+  });
+
+  it('maps unknown wordings to RELATED_TO, or drops them when strict', () => {
+    const lenient = normalizeRelations(graph('negotiated with'), constrained);
+    expect(lenient.data.links[0]).toMatchObject({ relation: 'RELATED_TO', relationLabel: 'negotiated with' });
+    expect(lenient.issues).toEqual([expect.objectContaining({ path: 'links[0].relation', action: 'coerced' })]);
+
+    const strict = normalizeRelations(graph('negotiated with'), { ...constrained, strict: true });
+    expect(strict.data.links).toEqual([]);
+    expect(strict.issues).toEqual([expect.objectContaining({ path: 'links[0]', action: 'rejected' })]);
+  });
+});
+
+describe('manualRelation', () => {
+  it('is canonical when the wording is known and never held to the vocabulary', () => {
+    expect(manualRelation('leader of', constrained)).toEqual({ relation: 'LEADER_OF', relationLabel: 'leader of' });
+    expect(manualRelation('negotiated with', { ...constrained, strict: true })).toEqual({ relation: 'NEGOTIATED_WITH', relationLabel: 'negotiated with' });
+  });
+});
@@ -0,0 +1,13 @@
+import { readFileSync } from 'fs';
+import { GraphData } from '../types/prism';
+import { parseFixtureFile, providerFixtures } from '../services/providerFixtures';
+
+// Recorded provider exchanges, served back the way REPLAY mode serves them
+providerFixtures.load(parseFixtureFile(readFileSync(new URL('./fixtures/cold-war.json', import.meta.url), 'utf8')));
+
+/** The raw graph a provider returned for `prompt`, before any sanitization. */
+export const replayGraph = (prompt: string): GraphData => {
+  const fixture = providerFixtures.find(prompt);
+  if (!fixture) throw new Error(`No fixture for prompt: ${prompt}`);
+  return JSON.parse(fixture.response);
+};
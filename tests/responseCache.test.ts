@@ -0,0 +1,44 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { responseCache, buildCacheKey } from '../services/responseCache';
+import { CachedResponse } from '../types/prism';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const entry = (key: string, createdAt: number): CachedResponse =>
+  ({ key, provider: 'Gemini', model: 'gemini-2.5-flash', temperature: 0.3, prompt: 'p', data: { nodes: [], links: [] }, createdAt });
+
+describe('buildCacheKey', () => {
+  it('ignores whitespace differences but not casing', async () => {
+    const key = await buildCacheKey('Research  "US" ', 'Gemini', 'gemini-2.5-flash', 0.3);
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await buildCacheKey('Research "US"', 'Gemini', 'gemini-2.5-flash', 0.3)).toBe(key);
+    expect(await buildCacheKey('Research "us"', 'Gemini', 'gemini-2.5-flash', 0.3)).not.toBe(key);
+  });
+
+  it('changes with the model, temperature and variant', async () => {
+    const key = await buildCacheKey('p', 'Gemini', 'gemini-2.5-flash', 0.3, 'a');
+
+    expect(await buildCacheKey('p', 'Gemini', 'gemini-2.0', 0.3, 'a')).not.toBe(key);
+    expect(await buildCacheKey('p', 'Gemini', 'gemini-2.5-flash', 0.7, 'a')).not.toBe(key);
+    expect(await buildCacheKey('p', 'Gemini', 'gemini-2.5-flash', 0.3, 'b')).not.toBe(key);
+  });
+});
+
+describe('responseCache', () => {
+  it('serves entries within the TTL and evicts expired ones', async () => {
+    await responseCache.put(entry('fresh', Date.now() - HOUR_MS));
+    await responseCache.put(entry('stale', Date.now() - 3 * HOUR_MS));
+
+    expect(await responseCache.get('fresh', 2)).toMatchObject({ key: 'fresh' });
+    expect(await responseCache.get('stale', 2)).toBeUndefined();
+    expect(await responseCache.count()).toBe(1);
+  });
+
+  it('prunes everything older than the TTL', async () => {
+    await responseCache.put(entry('old', Date.now() - 5 * HOUR_MS));
+    expect(await responseCache.prune(2)).toBe(1);
+    expect(await responseCache.get('fresh', 2)).toBeDefined();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeGraphData } from '../services/aiService';
+import { DEFAULT_ONTOLOGY } from '../utils/ontology';
+import { ValidationIssue } from '../types/prism';
+import { replayGraph } from './replay';
+
+describe('sanitizeGraphData', () => {
+  const issues: ValidationIssue[] = [];
+  const { nodes, links } = sanitizeGraphData(replayGraph('Research topic: "Cold War"'), DEFAULT_ONTOLOGY, issues);
+
+  it('normalizes IDs and de-duplicates nodes within the batch', () => {
+    expect(nodes.map(n => n.id)).toEqual(['cold_war', 'soviet_union', 'united_states']);
+    expect(nodes.every(n => Array.isArray(n.tags))).toBe(true);
+  });
+
+  it('keeps only http(s) evidence links', () => {
+    const sources = nodes.find(n => n.id === 'cold_war')!.sources!;
+    expect(sources[0].url).toBe('https://example.org/cold-war');
+    expect(sources[1]).toEqual({ title: 'Bad link' });
+  });
+
+  it('maps groups outside the ontology to the fallback and reports it', () => {
+    expect(nodes.find(n => n.id === 'soviet_union')!.groupLabel).toBe('Concept');
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'nodes[1].groupLabel', action: 'coerced' }));
+  });
+
+  it('re-points links to normalized IDs and drops dangling ones', () => {
+    expect(links.map(l => `${l.source}->${l.target}`)).toEqual(['soviet_union->cold_war', 'united_states->cold_war']);
+  });
+
+  it('leaves an already sanitized graph unchanged', () => {
+    const again: ValidationIssue[] = [];
+    expect(sanitizeGraphData({ nodes, links }, DEFAULT_ONTOLOGY, again)).toEqual({ nodes, links });
+    expect(again).toEqual([]);
+  });
+});
@@ -20,11 +20,12 @@ export interface ResearchNode {
   aliases?: string[]; // For fuzzy matching and deduplication
   
   // Provenance (The "Paper Trail")
-  researchMetadata?: {
-    provider: string; // e.g., 'Gemini', 'OpenAI'
-    model: string; // e.g., 'gemini-2.5-flash'
-    timestamp: number; // EPOCH
-  };
+  researchMetadata?: ResearchMetadata; // The generation that created the node
+  provenance?: ResearchMetadata[]; // Every generation that contributed to it, oldest first
+  sources?: EvidenceSource[]; // Where the claims in `summary` come from
+  confidence?: number; // 0.0 - 1.0, as reported by the generating model
+  verification?: Verification; // Second-model check, when enabled
+  agreement?: Agreement; // Consensus mode: which providers produced it
   
   // Visualization Metrics
   metrics: {
@@ -36,6 +37,184 @@ export interface ResearchNode {
   y?: number;
 }
 
+/**
+ * EVIDENCE: EvidenceSource
+ * A reference backing a node or link, so analysts can audit each fact.
+ */
+export interface EvidenceSource {
+  title: string; // Publication, page or document name
+  url?: string; // http(s) only; anything else is dropped during sanitization
+  quote?: string; // Short excerpt supporting the claim
+}
+
+/**
+ * VERIFICATION: Verification
+ * A second model's verdict on a generated node or link.
+ */
+export type VerificationVerdict = 'CONFIRMED' | 'DISPUTED' | 'UNCERTAIN';
+
+export interface Verification {
+  verdict: VerificationVerdict;
+  confidence: number; // 0.0 - 1.0, the verifier's own confidence
+  note?: string; // Why it was disputed or uncertain
+  provider: string;
+  model: string;
+  checkedAt: number; // EPOCH
+}
+
+/**
+ * CONSENSUS: Agreement
+ * How many of the providers queried in parallel produced an entity.
+ */
+export interface Agreement {
+  providers: string[]; // Providers that independently produced it
+  total: number; // Providers that answered the request
+}
+
+/**
+ * PROVENANCE: ResearchMetadata
+ * Records the provider and model that *actually* produced an entity.
+ */
+export interface ResearchMetadata {
+  provider: string; // e.g., 'Gemini', 'OpenAI'
+  model: string; // e.g., 'gemini-2.5-flash'; empty for manual changes
+  change?: string; // Manual changes only: what was done, e.g. 'edited label'
+  timestamp: number; // EPOCH
+  requestId?: string; // Shared by every entity from the same request
+  trace?: AIAttempt[]; // Every provider tried for that request, in order
+  cachedAt?: number; // Set when served from the response cache: when it was really generated
+  validation?: ValidationIssue[]; // What schema validation had to fix or drop in that response
+  prompt?: PromptRef; // Template version the request was built from
+}
+
+/**
+ * MERGE: NodeMergePolicy
+ * How a rediscovered node's fields are reconciled with the existing node.
+ * 'summarize' concatenates first, then has a model rewrite the result.
+ */
+export type MergeStrategy = 'keep' | 'replace' | 'concatenate' | 'summarize';
+
+export interface NodeMergePolicy {
+  summary: MergeStrategy;
+  type: Extract<MergeStrategy, 'keep' | 'replace'>; // Type and group change together
+}
+
+/**
+ * A merged node whose summaries disagree and await an AI rewrite.
+ */
+export interface SummaryConflict {
+  nodeId: string;
+  label: string;
+  summaries: string[]; // Existing first, then each rediscovery
+}
+
+/**
+ * REVIEW: MergeSuggestion
+ * A borderline duplicate kept apart until the user decides. Accepting
+ * merges `mergeId` into `keepId`.
+ */
+export interface MergeSuggestion {
+  id: string; // `keepId|mergeId`
+  keepId: string; // The node that was already in the graph
+  mergeId: string; // The node that looked like it
+  similarity: number; // 0.0 - 1.0, best label/alias score
+  createdAt: number;
+}
+
+/** Similarity range queued for review: below `min` distinct, from `max` merged automatically. */
+export interface SimilarityBand {
+  min: number;
+  max: number;
+}
+
+/**
+ * Two labels the user marked as different entities; never suggested or
+ * fuzzy-merged again.
+ */
+export interface DistinctPair {
+  key: string; // Both labels, normalized and sorted (see distinctKey)
+  labels: [string, string];
+  createdAt: number;
+}
+
+export type NodeShape = 'circle' | 'square' | 'diamond' | 'triangle' | 'pentagon' | 'hexagon';
+
+/**
+ * ONTOLOGY: OntologyGroup
+ * A node category: the node types it allows and how it is drawn.
+ */
+export interface OntologyGroup {
+  label: string; // groupLabel value, e.g. 'Person'
+  types: string[]; // Allowed node `type`s. Empty allows any
+  color: string; // Hex
+  shape: NodeShape;
+}
+
+/**
+ * ONTOLOGY: Ontology
+ * The workspace's own vocabulary. Generation is constrained to it, and the
+ * canvas and legend are drawn from it.
+ */
+export interface Ontology {
+  name: string; // Primary key
+  groups: OntologyGroup[];
+  relations: string[]; // Allowed relations, UPPER_SNAKE_CASE. Empty allows any
+  fallbackGroup: string; // Where unmatched nodes go unless `strict`
+  strict: boolean; // Off-ontology output is rejected instead of mapped
+  activatedAt: number; // EPOCH. The most recently activated ontology is the active one
+}
+
+/** Research actions whose prompts are editable templates. */
+export type PromptAction = 'topic' | 'correlation' | 'expand';
+
+/**
+ * PROMPTS: PromptTemplate
+ * One saved version of the prompt behind a research action. Saving creates
+ * a new version; earlier ones stay in the library and can be restored.
+ */
+export interface PromptTemplate {
+  id?: number; // Auto-incremented by Dexie
+  action: PromptAction;
+  version: number; // Per action, from 1. Version 0 is the built-in default
+  system: string; // Replaces the provider's system message. Empty keeps each provider's own
+  body: string; // {{variable}} placeholders are filled in at request time
+  nodeCount: number; // Fills {{nodeCount}}
+  language: string; // Fills {{language}}
+  createdAt: number; // EPOCH
+}
+
+/** Identifies the template version a request was rendered from. */
+export interface PromptRef {
+  action: PromptAction;
+  version: number;
+}
+
+/**
+ * A problem found while validating provider output against the graph schema.
+ * 'coerced' and 'repaired' values were fixed; 'rejected' items were dropped.
+ */
+export interface ValidationIssue {
+  path: string; // e.g. 'nodes[3].metrics.significance'
+  action: 'coerced' | 'repaired' | 'rejected';
+  message: string;
+}
+
+/**
+ * One step of an execution plan, as it actually played out.
+ */
+export interface AIAttempt {
+  provider: string;
+  model: string;
+  outcome: 'SUCCESS' | 'FAILED' | 'CACHED';
+  errorKind?: string; // AIErrorKind when outcome is FAILED
+  error?: string;
+  startedAt: number; // EPOCH
+  durationMs: number;
+  corrective?: boolean; // A retry that fed validation errors back to the model
+  verification?: boolean; // The second-model verification pass
+  classification?: boolean; // Mapping unknown relation wordings to canonical predicates
+}
+
 /**
  * SIMULATION EXTENSION
  * Extends the core node with D3-specific physics properties.
@@ -50,6 +229,14 @@ export interface SimulationNode extends ResearchNode {
   fy?: number | null; // Fixed Y (for dragging)
 }
 
+/**
+ * RENDER: SimulationLink
+ * A link as drawn. Parallel edges between the same two nodes are bent apart.
+ */
+export interface SimulationLink extends OptimizedConnection {
+  curvature?: number; // 0 = straight; sign picks the side, relative to source -> target
+}
+
 /**
  * CORE RELATIONSHIP: OptimizedConnection
  * Represents the vector between two nodes.
@@ -57,8 +244,14 @@ export interface SimulationNode extends ResearchNode {
 export interface OptimizedConnection {
   source: string | ResearchNode; // ID during transit, Object Ref during render
   target: string | ResearchNode;
-  relation: string; // Predicate (e.g., 'LEADER_OF')
+  relation: string; // Canonical predicate (e.g., 'LEADER_OF')
+  relationLabel?: string; // The model's own wording (e.g., 'was leader of'), for display
   weight: number; // 0.0 - 1.0. Determines link thickness/strength.
+  sources?: EvidenceSource[]; // Evidence that the relation holds
+  confidence?: number; // 0.0 - 1.0, as reported by the generating model
+  verification?: Verification;
+  agreement?: Agreement;
+  provenance?: ResearchMetadata[]; // Manual edits to the link, oldest first
 }
 
 /**
@@ -92,8 +285,18 @@ export interface AIModel {
   id: string;
   name: string;
   type: AIModelType;
-  remainingTokens: number; // Simulation of quota/context window
-  maxTokens: number;
+  remainingTokens: number; // maxTokens minus real usage reported by the provider
+  maxTokens: number; // Configurable budget
+  promptTokens?: number; // Consumed input tokens this cycle
+  completionTokens?: number; // Consumed output tokens this cycle
+}
+
+/**
+ * Token counts as reported by a provider's `usage` block.
+ */
+export interface AITokenUsage {
+  promptTokens: number;
+  completionTokens: number;
 }
 
 export interface AIProviderStats {
@@ -101,24 +304,257 @@ export interface AIProviderStats {
   activeModel: string;
   totalRemaining: number;
   totalMax: number;
+  promptTokens: number;
+  completionTokens: number;
   models: AIModel[]; 
   status: 'ACTIVE' | 'EXHAUSTED' | 'RATE_LIMITED' | 'ERROR';
+  statusReason?: string; // Last classified error behind a non-ACTIVE status
 }
 
+/**
+ * What happens when the first provider in the execution plan fails.
+ * NONE: fail the request. SAME_TIER: only try models of the same type
+ * (heavy/standard). ANY: walk the whole plan.
+ */
+export type AIFallbackPolicy = 'NONE' | 'SAME_TIER' | 'ANY';
+
+/**
+ * LIVE: normal operation. RECORD: live, and every raw provider exchange is
+ * captured as a fixture. REPLAY: only recorded fixtures answer; no network.
+ */
+export type AIProviderMode = 'LIVE' | 'RECORD' | 'REPLAY';
+
 export interface AISettings {
   autoMode: boolean; // Smart routing enabled
+  fallbackPolicy: AIFallbackPolicy;
   selectedProvider: string; // Manual override
   selectedModel: string; // Manual override
+  localEndpoint: string; // Base URL of an OpenAI-compatible server (Ollama, llama.cpp, LM Studio)
+  cacheTtlHours: number; // Response cache lifetime. 0 disables the cache
+  providerMode: AIProviderMode;
+  correctiveRetry: boolean; // Re-ask once, with the errors, when validation rejects items
+  verificationPass: boolean; // Have a second model confirm or dispute each claim
+  consensusSize: number; // Providers queried in parallel and merged. 1 disables consensus
+  relationClassifier: boolean; // Ask a model to place relation wordings the synonym table does not know
+  mergePolicy: NodeMergePolicy; // Reconciling rediscovered nodes
+  duplicateBand: SimilarityBand; // Fuzzy matches in this range wait for review instead of merging
+}
+
+/**
+ * Per-request options threaded from the UI down to the providers.
+ */
+export interface AIRequestOptions {
+  label?: string; // Human-readable request name recorded in the usage ledger
+  signal?: AbortSignal; // Cancels the in-flight call and any queued fallback steps
+  temperature?: number; // Sampling temperature; part of the response cache key
+  bypassCache?: boolean; // Skip cache lookup (a fresh answer still refreshes the entry)
+  expectedEntities?: number; // Requested nodes + links, used to scale streaming progress
+  onText?: (text: string) => void; // Provider level: response text accumulated so far
+  onProgress?: (event: AIProgressEvent) => void; // Manager level: stage changes & parsed entities
+  system?: string; // Replaces the provider's default system message
+  promptRef?: PromptRef; // Template the prompt was rendered from, stamped into provenance
+}
+
+/**
+ * A live update from an in-flight request.
+ */
+export interface AIProgressEvent {
+  stage: string; // Human-readable description of what is happening now
+  progress?: number; // 0.0 - 1.0, from the count of entities received
+  partial?: GraphData; // Entities parsed so far; empty when a step is abandoned
+}
+
+/**
+ * The outcome of a single provider call.
+ * `model` is the model that actually served the request.
+ */
+export interface AIGenerationResult {
+  data: GraphData;
+  model: string;
+  usage?: AITokenUsage;
+  issues?: ValidationIssue[]; // Schema validation findings for this response
 }
 
+/**
+ * PAYLOAD: GraphAnswer
+ * An answer-only response, grounded in a subgraph of the workspace.
+ * `citations` are the IDs of the nodes the answer relies on.
+ */
+export interface GraphAnswer {
+  answer: string;
+  citations: string[];
+}
+
+/**
+ * The outcome of a single answer-mode provider call.
+ */
+export interface AIAnswerResult {
+  answer: GraphAnswer;
+  model: string;
+  usage?: AITokenUsage;
+}
+
+/**
+ * A GraphAnswer as handed to the UI, with the provenance of the request.
+ */
+export interface GroundedAnswer extends GraphAnswer {
+  provider: string;
+  model: string;
+  timestamp: number;
+  trace: AIAttempt[];
+}
+
+/**
+ * PAYLOAD: ClaimVerdict
+ * One verdict from the verification pass. `claim` is a node ID or a
+ * link key (see linkKey in utils/graphUtils).
+ */
+export interface ClaimVerdict {
+  claim: string;
+  verdict: VerificationVerdict;
+  confidence: number;
+  note?: string;
+}
+
+/**
+ * The outcome of a single verification-mode provider call.
+ */
+export interface AIVerificationResult {
+  verdicts: ClaimVerdict[];
+  model: string;
+  usage?: AITokenUsage;
+}
+
+/**
+ * A classifier's reading of one relation wording.
+ */
+export interface RelationMapping {
+  relation: string; // The wording as sent
+  predicate: string; // A vocabulary predicate, or 'OTHER'
+}
+
+/**
+ * The outcome of a single relation-classification provider call.
+ */
+export interface AIRelationResult {
+  mappings: RelationMapping[];
+  model: string;
+  usage?: AITokenUsage;
+}
+
+/**
+ * Resolves the API key for a provider at call time.
+ * Returning undefined means "no credentials available".
+ */
+export type AICredentialSource = () => string | undefined;
+
 /**
  * INTERFACE: AIProvider
  * Contract for all AI Service implementations.
  */
 export interface AIProvider {
   name: string;
-  models: AIModel[];
+  models: AIModel[]; // Model catalog exposed to routing & SettingsPanel
+  credentials?: AICredentialSource;
   getStats: () => AIProviderStats;
-  generateGraph: (prompt: string, modelId?: string) => Promise<GraphData>;
+  generateGraph: (prompt: string, modelId?: string, options?: AIRequestOptions) => Promise<AIGenerationResult>;
+  generateAnswer?: (prompt: string, modelId?: string, options?: AIRequestOptions) => Promise<AIAnswerResult>; // Optional: answer-only mode
+  verifyClaims?: (prompt: string, modelId?: string, options?: AIRequestOptions) => Promise<AIVerificationResult>; // Optional: verification pass
+  classifyRelations?: (prompt: string, modelId?: string, options?: AIRequestOptions) => Promise<AIRelationResult>; // Optional: relation classifier
   resetCycle: () => void;
+  setModelBudget?: (modelId: string, maxTokens: number) => void;
+  refreshModels?: () => Promise<void>; // Optional: providers with a discoverable catalog
+}
+
+/**
+ * REGISTRY ENTRY: AIProviderRegistration
+ * How a provider is plugged into the AIServiceManager at runtime.
+ */
+export interface AIProviderRegistration {
+  provider: AIProvider;
+  priority: number; // Lower runs first in Auto Mode
+}
+
+export interface AIProviderRegistrationOptions {
+  priority?: number;
+  credentials?: AICredentialSource; // Overrides the provider's default source
+}
+
+// -----------------------------------------------------------------------------
+// QUOTA LEDGER TYPES
+// -----------------------------------------------------------------------------
+
+export type QuotaWindow = 'daily' | 'monthly' | 'rolling';
+
+/**
+ * How and when a provider's budgets reset. Persisted per provider.
+ */
+export interface QuotaPolicy {
+  provider: string; // Primary key
+  window: QuotaWindow;
+  rollingHours: number; // Only used by the 'rolling' window
+  budgets: Record<string, number>; // modelId -> maxTokens overrides
+}
+
+/**
+ * A single metered provider call.
+ */
+export interface UsageEntry {
+  id?: number; // Auto-incremented by Dexie
+  sessionId: string; // One per page load
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  timestamp: number;
+  label?: string;
+}
+
+export interface UsageSession {
+  sessionId: string;
+  startedAt: number;
+  entries: UsageEntry[];
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// -----------------------------------------------------------------------------
+// RESPONSE CACHE TYPES
+// -----------------------------------------------------------------------------
+
+/**
+ * A provider answer persisted for reuse.
+ */
+export interface CachedResponse {
+  key: string; // SHA-256 of normalized prompt, provider, model & temperature
+  provider: string;
+  model: string;
+  temperature: number;
+  prompt: string; // Normalized, kept for inspection
+  data: GraphData;
+  createdAt: number; // EPOCH. TTL is measured from here
+}
+
+// -----------------------------------------------------------------------------
+// RECORD / REPLAY TYPES
+// -----------------------------------------------------------------------------
+
+/**
+ * One raw provider exchange, as captured in RECORD mode.
+ */
+export interface ProviderFixture {
+  provider: string;
+  model: string;
+  prompt: string; // Prompt handed to generateGraph; the replay lookup key
+  system?: string; // System prompt it ran under, if any; part of the lookup key
+  request: unknown; // Payload sent to the vendor (secrets excluded)
+  response: string; // Raw model text, before parsing & sanitization
+  usage?: AITokenUsage;
+  recordedAt: number; // EPOCH
+}
+
+export interface FixtureFile {
+  version: number;
+  createdAt: number; // EPOCH
+  fixtures: ProviderFixture[];
 }
@@ -1,20 +1,415 @@
 
 import React, { useState } from 'react';
 import { usePrismStore } from '../store/prismStore';
-import { GROUP_COLORS } from '../constants';
-import { X, Hash, MapPin, Activity, Maximize2, Minimize2, HelpCircle, Tag, Cpu } from 'lucide-react';
+import { expandNode } from '../services/aiService';
+import { getNeighbours, isLowConfidence, getProvenance, linkKey, manualEdits, provenanceDetail, isWebUrl } from '../utils/graphUtils';
+import { AppStatus, EvidenceSource, ResearchNode, OptimizedConnection, VerificationVerdict, Agreement } from '../types/prism';
+import { getGroupStyle } from '../utils/ontology';
+import { displayRelation } from '../utils/relations';
+import { X, Hash, MapPin, Activity, Maximize2, Minimize2, HelpCircle, Tag, Cpu, Route, CheckCircle2, XCircle, Database, ShieldAlert, Network, Loader2, BookOpen, ExternalLink, Gauge, ShieldCheck, ShieldQuestion, Users, AlertTriangle, GitMerge, Pencil, PenLine, Trash2, Check, Plus, ArrowRight, ArrowLeft, Link2 } from 'lucide-react';
 import { GlassPanel } from './shared/GlassPanel';
+import { runRequest, integrateGraph } from './shared/aiRequest';
+
+// Evidence renders as links only for http(s) URLs, whatever sanitization let through
+const EvidenceList: React.FC<{ sources: EvidenceSource[] }> = ({ sources }) => (
+  <ul className="space-y-2">
+    {sources.map((source, idx) => (
+      <li key={idx} className="text-xs">
+        {isWebUrl(source.url) ? (
+          <a
+            href={source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 font-medium text-cyan-700 hover:text-cyan-500 hover:underline break-all"
+            title={source.url}
+          >
+            {source.title} <ExternalLink className="w-3 h-3 flex-shrink-0" />
+          </a>
+        ) : (
+          <span className="font-medium text-slate-700">{source.title} <span className="text-[10px] text-slate-400 font-normal">(no link)</span></span>
+        )}
+        {source.quote && (
+          <blockquote className="mt-1 pl-2 border-l-2 border-slate-200 text-[11px] text-slate-500 italic leading-5">"{source.quote}"</blockquote>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+const endpointId = (end: string | ResearchNode) => typeof end === 'object' ? end.id : end;
+const splitList = (text: string) => Array.from(new Set(text.split(',').map(t => t.trim()).filter(Boolean)));
+const clampWeight = (value: number) => Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+
+const FIELD_CLASSES = 'w-full bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 px-2 outline-none focus:border-cyan-400';
+const DUPLICATE_LINK = 'A link with this relation already exists between these nodes.';
+
+// Inline form for the node's own fields; only changed fields are saved
+const NodeEditor: React.FC<{ node: ResearchNode; onClose: () => void }> = ({ node, onClose }) => {
+  const { ontology, editNode, saveToDb } = usePrismStore();
+  const [draft, setDraft] = useState({
+    label: node.label,
+    type: node.type,
+    groupLabel: node.groupLabel,
+    summary: node.summary,
+    tags: (node.tags || []).join(', '),
+    aliases: (node.aliases || []).join(', '),
+    significance: node.metrics.significance
+  });
+  const update = (changes: Partial<typeof draft>) => setDraft(d => ({ ...d, ...changes }));
+
+  const groupLabels = ontology.groups.map(g => g.label);
+  if (!groupLabels.includes(node.groupLabel)) groupLabels.push(node.groupLabel);
+  const typeOptions = ontology.groups.find(g => g.label === draft.groupLabel)?.types || [];
+
+  const handleSave = () => {
+    const changes: Partial<ResearchNode> = {};
+    const tags = splitList(draft.tags);
+    const aliases = splitList(draft.aliases);
+    if (draft.label.trim() && draft.label.trim() !== node.label) changes.label = draft.label.trim();
+    if (draft.type.trim() && draft.type.trim() !== node.type) changes.type = draft.type.trim();
+    if (draft.groupLabel !== node.groupLabel) changes.groupLabel = draft.groupLabel;
+    if (draft.summary.trim() !== node.summary) changes.summary = draft.summary.trim();
+    if (tags.join(',') !== (node.tags || []).join(',')) changes.tags = tags;
+    if (aliases.join(',') !== (node.aliases || []).join(',')) changes.aliases = aliases;
+    if (draft.significance !== node.metrics.significance) changes.metrics = { ...node.metrics, significance: draft.significance };
+
+    if (Object.keys(changes).length > 0) {
+      editNode(node.id, changes);
+      saveToDb();
+    }
+    onClose();
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3 border-b border-slate-100 pb-2 flex items-center gap-2">
+        <Pencil className="w-3 h-3" /> Edit Entity
+      </h3>
+      <div>
+        <label className="block text-[9px] text-slate-500 font-bold mb-1">LABEL</label>
+        <input type="text" value={draft.label} onChange={(e) => update({ label: e.target.value })} className={FIELD_CLASSES} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-[9px] text-slate-500 font-bold mb-1">GROUP</label>
+          <select value={draft.groupLabel} onChange={(e) => update({ groupLabel: e.target.value })} className={`${FIELD_CLASSES} cursor-pointer`}>
+            {groupLabels.map(label => <option key={label} value={label}>{label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[9px] text-slate-500 font-bold mb-1">TYPE</label>
+          <input type="text" list="node-type-options" value={draft.type} onChange={(e) => update({ type: e.target.value })} className={FIELD_CLASSES} />
+          <datalist id="node-type-options">
+            {typeOptions.map(type => <option key={type} value={type} />)}
+          </datalist>
+        </div>
+      </div>
+      <div>
+        <label className="block text-[9px] text-slate-500 font-bold mb-1">SUMMARY</label>
+        <textarea value={draft.summary} onChange={(e) => update({ summary: e.target.value })} rows={5} className={`${FIELD_CLASSES} resize-y leading-5`} />
+      </div>
+      <div>
+        <label className="block text-[9px] text-slate-500 font-bold mb-1">TAGS (COMMA SEPARATED)</label>
+        <input type="text" value={draft.tags} onChange={(e) => update({ tags: e.target.value })} className={FIELD_CLASSES} />
+      </div>
+      <div>
+        <label className="block text-[9px] text-slate-500 font-bold mb-1">ALIASES (COMMA SEPARATED)</label>
+        <input type="text" value={draft.aliases} onChange={(e) => update({ aliases: e.target.value })} className={FIELD_CLASSES} />
+      </div>
+      <div>
+        <label className="flex justify-between text-[9px] text-slate-500 font-bold mb-1">
+          SIGNIFICANCE <span className="font-mono text-cyan-600">{draft.significance}/10</span>
+        </label>
+        <input
+          type="range" min={1} max={10} step={1}
+          value={draft.significance}
+          onChange={(e) => update({ significance: Number(e.target.value) })}
+          className="w-full accent-cyan-600"
+        />
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!draft.label.trim()}
+          className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-slate-900 hover:bg-cyan-600 disabled:opacity-50 text-white text-xs font-bold uppercase tracking-wider"
+        >
+          <Check className="w-3 h-3" /> Save
+        </button>
+        <button
+          onClick={onClose}
+          className="px-3 rounded-lg text-xs font-bold uppercase tracking-wider border border-slate-200 text-slate-500 hover:text-slate-800"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// One incident link: read-only until its pencil is pressed
+const ConnectionRow: React.FC<{ link: OptimizedConnection; nodeId: string; otherLabel: string; onFocus: () => void }> = ({ link, nodeId, otherLabel, onFocus }) => {
+  const { editLink, removeLink, saveToDb } = usePrismStore();
+  const [draft, setDraft] = useState<{ relation: string; weight: number } | null>(null);
+  const [error, setError] = useState('');
+  const isOutgoing = endpointId(link.source) === nodeId;
+  const isManual = manualEdits(link.provenance).length > 0;
+
+  const handleSave = () => {
+    if (!draft || !draft.relation.trim()) return;
+    const changes: { relation?: string; weight?: number } = {};
+    if (draft.relation.trim() !== displayRelation(link)) changes.relation = draft.relation;
+    if (clampWeight(draft.weight) !== link.weight) changes.weight = clampWeight(draft.weight);
+    if (Object.keys(changes).length > 0) {
+      if (!editLink(linkKey(link), changes)) {
+        setError(DUPLICATE_LINK);
+        return;
+      }
+      saveToDb();
+    }
+    setDraft(null);
+    setError('');
+  };
+
+  const handleDelete = () => {
+    removeLink(linkKey(link));
+    saveToDb();
+  };
+
+  if (draft) {
+    return (
+      <li className="p-2 rounded-lg bg-slate-50 border border-slate-200">
+        <div className="flex items-center gap-2">
+          {isOutgoing ? <ArrowRight className="w-3 h-3 text-slate-400 flex-shrink-0" /> : <ArrowLeft className="w-3 h-3 text-slate-400 flex-shrink-0" />}
+          <input
+            type="text"
+            value={draft.relation}
+            onChange={(e) => setDraft({ ...draft, relation: e.target.value })}
+            className={`${FIELD_CLASSES} flex-1 min-w-0 font-mono`}
+          />
+          <input
+            type="number" min={0} max={1} step={0.1}
+            value={draft.weight}
+            onChange={(e) => setDraft({ ...draft, weight: Number(e.target.value) })}
+            className={`${FIELD_CLASSES} !w-16 font-mono`}
+            title="Weight (0-1)"
+          />
+        </div>
+        <div className="flex items-center gap-2 mt-1.5">
+          <span className="text-[11px] text-slate-500 truncate flex-1">{otherLabel}</span>
+          <button onClick={handleSave} disabled={!draft.relation.trim()} className="p-1 text-emerald-600 hover:text-emerald-500 disabled:opacity-50" title="Save">
+            <Check className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => { setDraft(null); setError(''); }} className="p-1 text-slate-400 hover:text-slate-600" title="Cancel">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        {error && <p className="mt-1 text-[10px] text-rose-500">{error}</p>}
+      </li>
+    );
+  }
+
+  return (
+    <li className="group flex items-center gap-2 text-[11px]">
+      {isOutgoing ? <ArrowRight className="w-3 h-3 text-slate-300 flex-shrink-0" /> : <ArrowLeft className="w-3 h-3 text-slate-300 flex-shrink-0" />}
+      <span className="font-mono text-[10px] text-indigo-500 whitespace-nowrap" title={link.relation}>{displayRelation(link)}</span>
+      <button onClick={onFocus} className="truncate text-left text-slate-600 hover:text-cyan-600" title="Show on canvas">{otherLabel}</button>
+      {isManual && <PenLine className="w-3 h-3 text-violet-500 flex-shrink-0" aria-label="Edited manually" />}
+      <span className="ml-auto font-mono text-[10px] text-slate-400">{link.weight.toFixed(2)}</span>
+      <button
+        onClick={() => setDraft({ relation: displayRelation(link), weight: link.weight })}
+        className="p-0.5 text-slate-300 hover:text-slate-600 opacity-0 group-hover:opacity-100"
+        title="Edit link"
+      >
+        <Pencil className="w-3 h-3" />
+      </button>
+      <button onClick={handleDelete} className="p-0.5 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100" title="Delete link">
+        <Trash2 className="w-3 h-3" />
+      </button>
+    </li>
+  );
+};
+
+// Incoming and outgoing links, with a form for new ones
+const ConnectionList: React.FC<{ node: ResearchNode }> = ({ node }) => {
+  const { nodes, links, addLink, saveToDb, focusCamera } = usePrismStore();
+  const [draft, setDraft] = useState<{ outgoing: boolean; otherId: string; relation: string; weight: number } | null>(null);
+  const [error, setError] = useState('');
+
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label || id;
+  const incident = links.filter(l => endpointId(l.source) === node.id || endpointId(l.target) === node.id);
+  // Outgoing first, then incoming
+  const ordered = [
+    ...incident.filter(l => endpointId(l.source) === node.id),
+    ...incident.filter(l => endpointId(l.source) !== node.id)
+  ];
+  const candidates = nodes.filter(n => n.id !== node.id).sort((a, b) => a.label.localeCompare(b.label));
+
+  const handleAdd = () => {
+    if (!draft || !draft.otherId || !draft.relation.trim()) return;
+    const [source, target] = draft.outgoing ? [node.id, draft.otherId] : [draft.otherId, node.id];
+    if (!addLink(source, target, draft.relation, clampWeight(draft.weight))) {
+      setError(DUPLICATE_LINK);
+      return;
+    }
+    saveToDb();
+    setDraft(null);
+    setError('');
+  };
+
+  return (
+    <div>
+      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3 border-b border-slate-100 pb-2 flex items-center gap-2">
+        <Link2 className="w-3 h-3" /> Connections ({incident.length})
+        {!draft && (
+          <button
+            onClick={() => setDraft({ outgoing: true, otherId: candidates[0]?.id || '', relation: '', weight: 0.5 })}
+            disabled={candidates.length === 0}
+            className="ml-auto p-0.5 text-slate-400 hover:text-cyan-600 disabled:opacity-30"
+            title="Add link"
+          >
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </h3>
+
+      {ordered.length === 0 && !draft && <p className="text-xs text-slate-400 italic">No connections.</p>}
+      <ul className="space-y-1.5">
+        {ordered.map(link => {
+          const otherId = endpointId(link.source) === node.id ? endpointId(link.target) : endpointId(link.source);
+          return <ConnectionRow key={linkKey(link)} link={link} nodeId={node.id} otherLabel={labelOf(otherId)} onFocus={() => focusCamera(otherId)} />;
+        })}
+      </ul>
+
+      {draft && (
+        <div className="mt-3 p-2 rounded-lg bg-slate-50 border border-slate-200 space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={draft.outgoing ? 'out' : 'in'}
+              onChange={(e) => setDraft({ ...draft, outgoing: e.target.value === 'out' })}
+              className={`${FIELD_CLASSES} !w-20 cursor-pointer`}
+              title="Direction"
+            >
+              <option value="out">to →</option>
+              <option value="in">from ←</option>
+            </select>
+            <select
+              value={draft.otherId}
+              onChange={(e) => setDraft({ ...draft, otherId: e.target.value })}
+              className={`${FIELD_CLASSES} flex-1 min-w-0 cursor-pointer`}
+            >
+              {candidates.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={draft.relation}
+              onChange={(e) => setDraft({ ...draft, relation: e.target.value })}
+              placeholder="Relation, e.g. founded"
+              className={`${FIELD_CLASSES} flex-1 min-w-0 font-mono`}
+            />
+            <input
+              type="number" min={0} max={1} step={0.1}
+              value={draft.weight}
+              onChange={(e) => setDraft({ ...draft, weight: Number(e.target.value) })}
+              className={`${FIELD_CLASSES} !w-16 font-mono`}
+              title="Weight (0-1)"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleAdd}
+              disabled={!draft.otherId || !draft.relation.trim()}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-slate-900 hover:bg-cyan-600 disabled:opacity-50 text-white text-[10px] font-bold uppercase tracking-wider"
+            >
+              <Plus className="w-3 h-3" /> Add Link
+            </button>
+            <button
+              onClick={() => { setDraft(null); setError(''); }}
+              className="px-3 rounded-lg text-[10px] font-bold uppercase tracking-wider border border-slate-200 text-slate-500 hover:text-slate-800"
+            >
+              Cancel
+            </button>
+          </div>
+          {error && <p className="text-[10px] text-rose-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const VERDICT_STYLES: Record<VerificationVerdict, string> = {
+  CONFIRMED: 'bg-emerald-50 text-emerald-600 border border-emerald-200',
+  DISPUTED: 'bg-rose-50 text-rose-600 border border-rose-200',
+  UNCERTAIN: 'bg-amber-50 text-amber-600 border border-amber-200'
+};
 
 const DetailPanel: React.FC = () => {
-  const { selectedNode, selectNode, ui } = usePrismStore();
+  const { 
+    selectedNode, selectNode, ui, nodes, links, status, ontology,
+    cancelRequest, setPendingGraph, focusCamera
+  } = usePrismStore();
   const [isExpanded, setIsExpanded] = useState(false);
+  const [expansion, setExpansion] = useState<{ nodeId: string; stage: string; running: boolean } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   if (!selectedNode) return null;
 
   const isVisible = ui.isSidebarOpen;
   if (!isVisible) return null;
 
-  const color = GROUP_COLORS[selectedNode.groupLabel] || GROUP_COLORS.default;
+  const color = getGroupStyle(ontology, selectedNode.groupLabel).color;
+  const isBusy = status === AppStatus.GENERATING || status === AppStatus.SWITCHING_PROVIDER;
+  const isExpanding = expansion?.running && expansion.nodeId === selectedNode.id;
+  const isEditing = editingId === selectedNode.id;
+
+  // Evidence for the node itself and for each of its relations
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const incident = links
+    .filter(l => endpointId(l.source) === selectedNode.id || endpointId(l.target) === selectedNode.id)
+    .map(l => {
+      const otherId = endpointId(l.source) === selectedNode.id ? endpointId(l.target) : endpointId(l.source);
+      return { link: l, relation: displayRelation(l), other: nodeById.get(otherId)?.label || otherId };
+    });
+  // Every generation that produced or merged into this node
+  const contributions = getProvenance(selectedNode);
+  const lastManualEdit = manualEdits(contributions).pop();
+  const linkEvidence = incident
+    .filter(entry => entry.link.sources?.length)
+    .map(entry => ({ ...entry, sources: entry.link.sources! }));
+
+  // Consensus: entities only one of several models produced deserve a second look
+  const isSingleSource = (agreement?: Agreement) => !!agreement && agreement.total > 1 && agreement.providers.length <= 1;
+  const linkAgreement = incident.filter(entry => entry.link.agreement);
+
+  // --- ACTIONS ---
+
+  // Asks for new entities around the node, telling the model what it already knows
+  const handleExpand = async () => {
+    const node = selectedNode;
+    const report = (stage: string, running = true) => setExpansion({ nodeId: node.id, stage, running });
+    report(`Mapping the neighbourhood of ${node.label}...`);
+    setPendingGraph(null);
+
+    const data = await runRequest(async signal => {
+      const data = await expandNode(node, getNeighbours(node.id, nodes, links), {
+        signal,
+        onProgress: (event) => {
+          if (signal.aborted) return;
+          report(event.stage);
+          if (event.partial) setPendingGraph(event.partial);
+        }
+      });
+      await integrateGraph(data, signal, report);
+      return data;
+    }, {
+      onCancel: () => setExpansion(null),
+      onError: () => report("Expansion failed.", false)
+    });
+    if (!data) return;
+    report(`Integrated ${data.nodes.length} nodes, ${data.links.length} links.`, false);
+    focusCamera(node.id);
+  };
 
   return (
     <GlassPanel 
@@ -31,6 +426,13 @@ const DetailPanel: React.FC = () => {
         />
         
         <div className="absolute top-4 right-4 flex gap-2">
+          <button 
+            onClick={() => setEditingId(isEditing ? null : selectedNode.id)}
+            className={`p-1 transition-colors bg-white/80 rounded-full hover:bg-white ${isEditing ? 'text-cyan-600' : 'text-slate-400 hover:text-slate-900'}`}
+            title={isEditing ? "Stop editing" : "Edit"}
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
           <button 
             onClick={() => setIsExpanded(!isExpanded)}
             className="p-1 text-slate-400 hover:text-slate-900 transition-colors bg-white/80 rounded-full hover:bg-white"
@@ -59,9 +461,42 @@ const DetailPanel: React.FC = () => {
         <p className="text-slate-500 text-sm font-medium flex items-center gap-2">
            <Hash className="w-3 h-3" /> {selectedNode.type}
         </p>
+        {selectedNode.aliases && selectedNode.aliases.length > 0 && (
+          <p className="text-slate-400 text-xs mt-1 truncate" title={selectedNode.aliases.join(', ')}>Also: {selectedNode.aliases.join(', ')}</p>
+        )}
+        {lastManualEdit && (
+          <p className="text-violet-600 text-[11px] mt-1 flex items-center gap-1" title={provenanceDetail(lastManualEdit)}>
+            <PenLine className="w-3 h-3" /> Edited manually · {new Date(lastManualEdit.timestamp).toLocaleString()}
+          </p>
+        )}
       </div>
 
       <div className="p-6 space-y-6 flex-1 overflow-y-auto custom-scrollbar">
+        {/* Research Actions */}
+        <div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExpand}
+              disabled={isBusy}
+              className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold uppercase tracking-wider bg-slate-900 text-white hover:bg-cyan-600 transition-colors disabled:opacity-50 disabled:hover:bg-slate-900"
+            >
+              {isExpanding ? <Loader2 className="w-3 h-3 animate-spin" /> : <Network className="w-3 h-3" />}
+              Expand Neighbourhood
+            </button>
+            {isExpanding && (
+              <button
+                onClick={cancelRequest}
+                className="px-3 rounded-lg text-xs font-bold uppercase tracking-wider border border-slate-200 text-slate-500 hover:text-rose-500 hover:border-rose-300"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+          {expansion && expansion.nodeId === selectedNode.id && (
+            <p className="text-[10px] text-slate-400 font-mono mt-1.5 truncate" title={expansion.stage}>{expansion.stage}</p>
+          )}
+        </div>
+
         {/* Metrics */}
         <div className="bg-slate-50/80 rounded-lg p-4 border border-slate-200">
            <div className="flex justify-between items-center mb-2">
@@ -84,10 +519,74 @@ const DetailPanel: React.FC = () => {
                />
              ))}
            </div>
+
+           {/* Consensus Agreement */}
+           {selectedNode.agreement && (
+             <div className="mt-3 pt-3 border-t border-slate-200">
+               <div className="flex justify-between items-center text-xs">
+                 <span className="font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                   <Users className="w-3 h-3" /> Agreement
+                 </span>
+                 <span className={`font-mono ${isSingleSource(selectedNode.agreement) ? 'text-rose-500' : 'text-cyan-600'}`}>
+                   {selectedNode.agreement.providers.length}/{selectedNode.agreement.total} providers
+                 </span>
+               </div>
+               <div className="text-[10px] text-slate-400 font-mono mt-1">{selectedNode.agreement.providers.join(', ')}</div>
+               {isSingleSource(selectedNode.agreement) && (
+                 <div className="mt-1 flex items-center gap-1 text-[11px] text-rose-500">
+                   <AlertTriangle className="w-3 h-3" /> Only one model produced this entity.
+                 </div>
+               )}
+               {linkAgreement.length > 0 && (
+                 <ul className="mt-2 space-y-0.5">
+                   {linkAgreement.map((entry, idx) => (
+                     <li key={idx} className="flex justify-between gap-2 text-[10px]">
+                       <span className="truncate text-slate-500">
+                         <span className="font-mono text-indigo-500" title={entry.link.relation}>{entry.relation}</span> · {entry.other}
+                       </span>
+                       <span className={`font-mono whitespace-nowrap ${isSingleSource(entry.link.agreement) ? 'text-rose-500' : 'text-slate-400'}`}>
+                         {entry.link.agreement!.providers.length}/{entry.link.agreement!.total}
+                       </span>
+                     </li>
+                   ))}
+                 </ul>
+               )}
+             </div>
+           )}
+
+           {/* Confidence & Verification */}
+           {(selectedNode.confidence !== undefined || selectedNode.verification) && (
+             <div className="mt-3 pt-3 border-t border-slate-200 space-y-2">
+               {selectedNode.confidence !== undefined && (
+                 <div className="flex justify-between items-center text-xs">
+                   <span className="font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                     <Gauge className="w-3 h-3" /> Confidence
+                   </span>
+                   <span className={`font-mono ${isLowConfidence(selectedNode) ? 'text-rose-500' : 'text-cyan-600'}`}>
+                     {Math.round(selectedNode.confidence * 100)}%
+                   </span>
+                 </div>
+               )}
+               {selectedNode.verification && (
+                 <div className="text-[11px]" title={`Checked ${new Date(selectedNode.verification.checkedAt).toLocaleString()}`}>
+                   <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded font-bold uppercase text-[9px] ${VERDICT_STYLES[selectedNode.verification.verdict]}`}>
+                     {selectedNode.verification.verdict === 'CONFIRMED' ? <ShieldCheck className="w-3 h-3" /> : <ShieldQuestion className="w-3 h-3" />}
+                     {selectedNode.verification.verdict}
+                   </span>
+                   <span className="ml-2 text-slate-400 font-mono text-[10px]">
+                     {selectedNode.verification.provider}::{selectedNode.verification.model} · {Math.round(selectedNode.verification.confidence * 100)}%
+                   </span>
+                   {selectedNode.verification.note && <p className="mt-1 text-slate-500 italic">{selectedNode.verification.note}</p>}
+                 </div>
+               )}
+             </div>
+           )}
         </div>
 
+        {isEditing && <NodeEditor key={selectedNode.id} node={selectedNode} onClose={() => setEditingId(null)} />}
+
         {/* Tags */}
-        {selectedNode.tags && selectedNode.tags.length > 0 && (
+        {!isEditing && selectedNode.tags && selectedNode.tags.length > 0 && (
           <div>
             <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3 border-b border-slate-100 pb-2 flex items-center gap-2">
               <Tag className="w-3 h-3" /> Tags
@@ -103,9 +602,35 @@ const DetailPanel: React.FC = () => {
         )}
 
         {/* Content */}
+        {!isEditing && (
+          <div>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3 border-b border-slate-100 pb-2">Analysis Protocol</h3>
+            <p className="text-slate-700 text-sm leading-7 font-light">{selectedNode.summary}</p>
+          </div>
+        )}
+
+        <ConnectionList node={selectedNode} />
+
+        {/* Evidence: every claim should be traceable before it goes into a report */}
         <div>
-          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3 border-b border-slate-100 pb-2">Analysis Protocol</h3>
-          <p className="text-slate-700 text-sm leading-7 font-light">{selectedNode.summary}</p>
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3 border-b border-slate-100 pb-2 flex items-center gap-2">
+            <BookOpen className="w-3 h-3" /> Evidence
+          </h3>
+          {!selectedNode.sources?.length && linkEvidence.length === 0 ? (
+            <p className="text-xs text-slate-400 italic">No sources recorded. Treat this entity as unverified.</p>
+          ) : (
+            <div className="space-y-4">
+              {selectedNode.sources && selectedNode.sources.length > 0 && <EvidenceList sources={selectedNode.sources} />}
+              {linkEvidence.map((entry, idx) => (
+                <div key={idx}>
+                  <div className="text-[10px] font-bold text-slate-500 uppercase mb-1">
+                    <span className="font-mono text-indigo-500" title={entry.link.relation}>{entry.relation}</span> · {entry.other}
+                  </div>
+                  <EvidenceList sources={entry.sources} />
+                </div>
+              ))}
+            </div>
+          )}
         </div>
         
         {/* Research Provenance - Exact Request Implementation */}
@@ -113,8 +638,88 @@ const DetailPanel: React.FC = () => {
           <div className="mt-4 p-3 bg-slate-50 rounded border border-slate-200">
             <div className="text-xs font-bold text-slate-500 uppercase mb-1">AI Research Provenance</div>
             <div className="text-sm text-slate-700">Provider: <span className="font-semibold">{selectedNode.researchMetadata.provider}</span></div>
-            <div className="text-sm text-slate-700">Model: <span className="font-mono text-xs">{selectedNode.researchMetadata.model}</span></div>
+            <div className="text-sm text-slate-700">{selectedNode.researchMetadata.change ? 'Change' : 'Model'}: <span className="font-mono text-xs">{provenanceDetail(selectedNode.researchMetadata)}</span></div>
+            {selectedNode.researchMetadata.prompt && (
+              <div className="text-sm text-slate-700">Prompt: <span className="font-mono text-xs">
+                {selectedNode.researchMetadata.prompt.action} {selectedNode.researchMetadata.prompt.version === 0 ? '(built-in)' : `v${selectedNode.researchMetadata.prompt.version}`}
+              </span></div>
+            )}
             <div className="text-xs text-slate-400 mt-1">{new Date(selectedNode.researchMetadata.timestamp).toLocaleString()}</div>
+            {selectedNode.researchMetadata.cachedAt && (
+              <div className="mt-1 flex items-center gap-1 text-[11px] text-amber-600">
+                <Database className="w-3 h-3" /> Served from cache · generated {new Date(selectedNode.researchMetadata.cachedAt).toLocaleString()}
+              </div>
+            )}
+
+            {/* Attempt Trace: every provider tried for the originating request */}
+            {selectedNode.researchMetadata.trace && selectedNode.researchMetadata.trace.length > 0 && (
+              <div className="mt-3 pt-2 border-t border-slate-200">
+                <div className="text-[10px] font-bold text-slate-400 uppercase mb-1 flex items-center gap-1">
+                  <Route className="w-3 h-3" /> Request Trace
+                </div>
+                <ol className="space-y-1">
+                  {selectedNode.researchMetadata.trace.map((attempt, idx) => (
+                    <li key={idx} className="flex items-start gap-2 text-[11px]" title={attempt.error}>
+                      {attempt.outcome === 'SUCCESS' && <CheckCircle2 className="w-3 h-3 mt-0.5 text-emerald-500 flex-shrink-0" />}
+                      {attempt.outcome === 'CACHED' && <Database className="w-3 h-3 mt-0.5 text-amber-500 flex-shrink-0" />}
+                      {attempt.outcome === 'FAILED' && <XCircle className="w-3 h-3 mt-0.5 text-rose-400 flex-shrink-0" />}
+                      <span className="text-slate-600">
+                        {attempt.provider} <span className="font-mono text-[10px] text-slate-400">{attempt.model}</span>
+                        {attempt.corrective && <span className="ml-1 text-[10px] text-indigo-500">corrective</span>}
+                        {attempt.verification && <span className="ml-1 text-[10px] text-emerald-600">verification</span>}
+                        {attempt.classification && <span className="ml-1 text-[10px] text-amber-600">classifier</span>}
+                      </span>
+                      <span className="ml-auto font-mono text-[10px] text-slate-400 whitespace-nowrap">
+                        {attempt.errorKind || (attempt.outcome === 'CACHED' ? 'CACHE' : 'OK')} · {attempt.durationMs}ms
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {/* Validation: what the schema check changed in the response */}
+            {selectedNode.researchMetadata.validation && selectedNode.researchMetadata.validation.length > 0 && (
+              <div className="mt-3 pt-2 border-t border-slate-200">
+                <div className="text-[10px] font-bold text-slate-400 uppercase mb-1 flex items-center gap-1">
+                  <ShieldAlert className="w-3 h-3" /> Schema Validation
+                </div>
+                <ul className="space-y-1">
+                  {selectedNode.researchMetadata.validation.map((issue, idx) => (
+                    <li key={idx} className="flex items-start gap-2 text-[11px]">
+                      <span className={`font-mono text-[10px] uppercase whitespace-nowrap ${issue.action === 'rejected' ? 'text-rose-500' : 'text-amber-500'}`}>
+                        {issue.action}
+                      </span>
+                      <span className="text-slate-600 break-all">
+                        <span className="font-mono text-[10px] text-slate-400">{issue.path}</span> {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Contributions: later generations merged into this node */}
+            {contributions.length > 1 && (
+              <div className="mt-3 pt-2 border-t border-slate-200">
+                <div className="text-[10px] font-bold text-slate-400 uppercase mb-1 flex items-center gap-1">
+                  <GitMerge className="w-3 h-3" /> Contributions ({contributions.length})
+                </div>
+                <ol className="space-y-1">
+                  {contributions.map((entry, idx) => (
+                    <li key={idx} className="flex items-start gap-2 text-[11px]">
+                      <span className="text-slate-600">
+                        {entry.provider} <span className="font-mono text-[10px] text-slate-400">{provenanceDetail(entry)}</span>
+                        {entry.prompt && <span className="ml-1 text-[10px] text-slate-400">{entry.prompt.action}</span>}
+                      </span>
+                      <span className="ml-auto font-mono text-[10px] text-slate-400 whitespace-nowrap">
+                        {new Date(entry.timestamp).toLocaleDateString()}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
           </div>
         )}
 
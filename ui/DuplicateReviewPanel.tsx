@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { GlassPanel } from './shared/GlassPanel';
+import { usePrismStore } from '../store/prismStore';
+import { getGroupStyle } from '../utils/ontology';
+import { getProvenance } from '../utils/graphUtils';
+import { ResearchNode } from '../types/prism';
+import { ScanSearch, GitMerge, X, EqualNot, ChevronLeft, ChevronRight } from 'lucide-react';
+
+// One side of the comparison: everything that tells two entities apart
+const NodeColumn: React.FC<{ node: ResearchNode; role: string; linkCount: number }> = ({ node, role, linkCount }) => {
+  const ontology = usePrismStore(state => state.ontology);
+  const focusCamera = usePrismStore(state => state.focusCamera);
+  const origin = getProvenance(node)[0];
+
+  return (
+    <div className="flex-1 min-w-0 p-2.5 rounded-lg bg-slate-50 border border-slate-200">
+      <div className="text-[9px] font-bold text-slate-400 uppercase mb-1">{role}</div>
+      <button
+        onClick={() => focusCamera(node.id)}
+        className="text-left text-sm font-bold text-slate-800 hover:text-cyan-600 leading-tight break-words"
+        title="Show on canvas"
+      >
+        {node.label}
+      </button>
+      <div className="flex items-center gap-1.5 mt-1 text-[10px] text-slate-500">
+        <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: getGroupStyle(ontology, node.groupLabel).color }} />
+        <span className="truncate">{node.groupLabel} · {node.type}</span>
+      </div>
+      <div className="font-mono text-[10px] text-slate-400 truncate">{node.id}</div>
+      <p className="mt-2 text-[11px] text-slate-600 leading-snug max-h-28 overflow-y-auto custom-scrollbar">
+        {node.summary || <span className="italic text-slate-400">No summary</span>}
+      </p>
+      {node.aliases && node.aliases.length > 0 && (
+        <div className="mt-2 text-[10px] text-slate-500"><span className="font-bold">Aliases:</span> {node.aliases.join(', ')}</div>
+      )}
+      {node.tags && node.tags.length > 0 && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {node.tags.map(tag => (
+            <span key={tag} className="px-1.5 py-0.5 rounded bg-white border border-slate-200 text-[9px] text-slate-500">{tag}</span>
+          ))}
+        </div>
+      )}
+      <div className="mt-2 pt-1.5 border-t border-slate-200 text-[10px] text-slate-400 space-y-0.5">
+        <div>{linkCount} link{linkCount === 1 ? '' : 's'} · {node.sources?.length || 0} source{node.sources?.length === 1 ? '' : 's'}</div>
+        {origin && <div className="truncate">{origin.provider} · {new Date(origin.timestamp).toLocaleDateString()}</div>}
+      </div>
+    </div>
+  );
+};
+
+const DuplicateReviewPanel: React.FC = () => {
+  const {
+    ui, nodes, links, mergeSuggestions, toggleReviewPanel,
+    acceptMergeSuggestion, rejectMergeSuggestion, markDistinct, saveToDb
+  } = usePrismStore();
+  const [position, setPosition] = useState(0);
+
+  const isVisible = ui.isSidebarOpen && ui.isReviewPanelOpen;
+
+  const index = Math.min(position, Math.max(0, mergeSuggestions.length - 1));
+  const suggestion = mergeSuggestions[index];
+  const keep = suggestion && nodes.find(n => n.id === suggestion.keepId);
+  const other = suggestion && nodes.find(n => n.id === suggestion.mergeId);
+
+  const endpointId = (end: string | ResearchNode) => typeof end === 'object' ? end.id : end;
+  const linkCount = (id: string) => links.filter(l => endpointId(l.source) === id || endpointId(l.target) === id).length;
+
+  // Decisions change the graph or the queue; both are persisted right away
+  const decide = async (action: (id: string) => void | Promise<void>) => {
+    if (!suggestion) return;
+    await action(suggestion.id);
+    saveToDb();
+  };
+
+  return (
+    <GlassPanel isOpen={isVisible} positionClasses="top-4 left-[26rem]" widthClasses="w-[440px]">
+      <div className="flex items-center justify-between mb-4 border-b border-slate-100 pb-3">
+        <div className="flex items-center gap-2">
+          <ScanSearch className="w-5 h-5 text-amber-500" />
+          <h2 className="text-sm font-bold uppercase tracking-widest text-slate-700">Duplicate Review</h2>
+          {mergeSuggestions.length > 0 && (
+            <span className="px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700 text-[10px] font-bold">{mergeSuggestions.length}</span>
+          )}
+        </div>
+        <button onClick={toggleReviewPanel} className="p-1 text-slate-400 hover:text-slate-600" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!suggestion ? (
+        <p className="text-xs text-slate-400 text-center py-6">
+          No suggestions. Near matches found while integrating research appear here instead of being merged silently.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-2">
+            <button
+              onClick={() => setPosition(index - 1)}
+              disabled={index === 0}
+              className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30"
+              title="Previous"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-[10px] text-slate-500">
+              {index + 1} of {mergeSuggestions.length} · <span className="font-mono font-bold text-amber-600">{Math.round(suggestion.similarity * 100)}%</span> similar
+            </span>
+            <button
+              onClick={() => setPosition(index + 1)}
+              disabled={index >= mergeSuggestions.length - 1}
+              className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30"
+              title="Next"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+
+          {keep && other ? (
+            <div className="flex gap-2">
+              <NodeColumn node={keep} role="In the graph" linkCount={linkCount(keep.id)} />
+              <NodeColumn node={other} role="Suggested duplicate" linkCount={linkCount(other.id)} />
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 text-center py-4">One of these nodes no longer exists.</p>
+          )}
+
+          <div className="grid grid-cols-3 gap-2 mt-4">
+            <button
+              onClick={() => decide(acceptMergeSuggestion)}
+              disabled={!keep || !other}
+              className="flex items-center justify-center gap-1 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white text-[10px] font-bold tracking-wider"
+              title={keep ? `Merge into "${keep.label}"; links are re-pointed` : undefined}
+            >
+              <GitMerge className="w-3.5 h-3.5" /> MERGE
+            </button>
+            <button
+              onClick={() => decide(rejectMergeSuggestion)}
+              className="flex items-center justify-center gap-1 py-2 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 text-[10px] font-bold tracking-wider"
+              title="Dismiss for now; the pair may be suggested again"
+            >
+              <X className="w-3.5 h-3.5" /> DISMISS
+            </button>
+            <button
+              onClick={() => decide(markDistinct)}
+              disabled={!keep || !other}
+              className="flex items-center justify-center gap-1 py-2 rounded-lg border border-slate-200 text-rose-600 hover:bg-rose-50 disabled:opacity-50 text-[10px] font-bold tracking-wider"
+              title="Different entities: never suggest or merge this pair again"
+            >
+              <EqualNot className="w-3.5 h-3.5" /> DISTINCT
+            </button>
+          </div>
+        </>
+      )}
+    </GlassPanel>
+  );
+};
+
+export default DuplicateReviewPanel;
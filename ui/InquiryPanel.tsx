@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { GlassPanel } from './shared/GlassPanel';
+import { runRequest } from './shared/aiRequest';
+import { usePrismStore } from '../store/prismStore';
+import { askGraph } from '../services/aiService';
+import { selectSubgraph } from '../utils/graphUtils';
+import { AppStatus, GroundedAnswer } from '../types/prism';
+import { getGroupStyle } from '../utils/ontology';
+import { MessagesSquare, Loader2, Send, X, Eraser } from 'lucide-react';
+
+// Answers refer to entities inline as [node_id]
+const CITATION_PATTERN = /\[([a-z0-9_]+)\]/g;
+
+const InquiryPanel: React.FC = () => {
+  const {
+    ui, nodes, links, status, cancelRequest,
+    selectNode, focusCamera, highlightedNodeIds, setHighlightedNodes, ontology
+  } = usePrismStore();
+  const [question, setQuestion] = useState('');
+  const [stage, setStage] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [result, setResult] = useState<{ question: string; answer: GroundedAnswer; contextSize: number } | null>(null);
+  const [error, setError] = useState('');
+
+  const isVisible = ui.isSidebarOpen && ui.isInquiryPanelOpen;
+  const isBusy = status === AppStatus.GENERATING || status === AppStatus.SWITCHING_PROVIDER;
+
+  // --- ACTIONS ---
+
+  const handleAsk = async () => {
+    const asked = question.trim();
+    if (!asked || isBusy) return;
+
+    const context = selectSubgraph(asked, nodes, links);
+    setIsAsking(true);
+    setError('');
+    setStage(`Grounding on ${context.nodes.length} nodes, ${context.links.length} links...`);
+
+    const answer = await runRequest(signal => askGraph(asked, context, {
+      signal,
+      onProgress: (event) => { if (!signal.aborted) setStage(event.stage); }
+    }), {
+      onError: () => setError("Question could not be answered. All providers failed.")
+    });
+    setIsAsking(false);
+    setStage('');
+    if (!answer) return;
+    setResult({ question: asked, answer, contextSize: context.nodes.length });
+    setHighlightedNodes(answer.citations);
+  };
+
+  const handleCitation = (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    if (!node) return;
+    selectNode(node);
+    focusCamera(id);
+  };
+
+  const handleClear = () => {
+    setResult(null);
+    setHighlightedNodes([]);
+  };
+
+  // --- RENDER HELPERS ---
+
+  const renderCitation = (id: string, key: React.Key) => {
+    const node = nodes.find(n => n.id === id);
+    if (!node) return <span key={key} className="font-mono text-slate-400">[{id}]</span>;
+    return (
+      <button
+        key={key}
+        onClick={() => handleCitation(id)}
+        className="inline-flex items-center gap-1 px-1.5 py-0.5 mx-0.5 rounded bg-amber-50 border border-amber-200 text-[10px] font-semibold text-amber-700 hover:bg-amber-100 align-baseline"
+        title={id}
+      >
+        <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: getGroupStyle(ontology, node.groupLabel).color }} />
+        {node.label}
+      </button>
+    );
+  };
+
+  const renderAnswer = (text: string) =>
+    text.split(CITATION_PATTERN).map((part, idx) =>
+      idx % 2 === 1 ? renderCitation(part, idx) : <React.Fragment key={idx}>{part}</React.Fragment>
+    );
+
+  return (
+    <GlassPanel isOpen={isVisible} positionClasses="bottom-6 left-[26rem]" widthClasses="w-[360px]">
+      <div className="flex items-center justify-between mb-4 border-b border-slate-100 pb-3">
+        <div className="flex items-center gap-2">
+          <MessagesSquare className="w-5 h-5 text-amber-600" />
+          <h2 className="text-sm font-bold uppercase tracking-widest text-slate-700">Graph Inquiry</h2>
+        </div>
+        <button
+          onClick={handleClear}
+          disabled={!result && highlightedNodeIds.length === 0}
+          className="p-1 text-slate-400 hover:text-rose-500 disabled:opacity-30"
+          title="Clear answer and highlights"
+        >
+          <Eraser className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAsk()}
+          disabled={isBusy}
+          className="w-full bg-slate-50 border border-slate-200 rounded-lg pl-3 pr-2 py-2 text-sm focus:outline-none focus:border-amber-500 focus:ring-1 focus:ring-amber-500 transition-all placeholder:text-slate-400"
+          placeholder="How is X connected to Y?"
+        />
+        {isAsking ? (
+          <button
+            onClick={cancelRequest}
+            className="bg-rose-50 border border-rose-100 text-rose-500 hover:text-rose-600 p-2 rounded-lg"
+            title="Cancel request"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        ) : (
+          <button
+            onClick={handleAsk}
+            disabled={isBusy || !question.trim()}
+            className="bg-amber-600 hover:bg-amber-500 disabled:bg-slate-200 disabled:text-slate-400 text-white p-2 rounded-lg shadow-lg active:scale-95 transition-all"
+          >
+            {isBusy ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+          </button>
+        )}
+      </div>
+      <p className="text-[10px] text-slate-400 leading-tight mt-1">
+        Answers use only the current workspace. Cited entities are ringed on the canvas.
+      </p>
+
+      {stage && <p className="text-[10px] font-mono text-amber-700 mt-3 truncate" title={stage}>{stage}</p>}
+      {error && <p className="text-[10px] text-rose-500 mt-3">{error}</p>}
+
+      {result && (
+        <div className="mt-4 max-h-[40vh] overflow-y-auto custom-scrollbar pr-1">
+          <div className="text-[10px] font-bold text-slate-400 uppercase mb-1 truncate" title={result.question}>Q: {result.question}</div>
+          <p className="text-sm text-slate-700 leading-6 font-light">{renderAnswer(result.answer.answer)}</p>
+
+          {result.answer.citations.length > 0 && (
+            <div className="mt-3 pt-2 border-t border-slate-100">
+              <div className="text-[10px] font-bold text-slate-400 uppercase mb-1">Cited Entities</div>
+              <div className="flex flex-wrap gap-1">
+                {result.answer.citations.map(id => renderCitation(id, id))}
+              </div>
+            </div>
+          )}
+
+          <div className="mt-3 text-[9px] font-mono text-slate-400">
+            {result.answer.provider}::{result.answer.model} · {result.contextSize} context nodes · {result.answer.trace.length} attempt(s)
+          </div>
+        </div>
+      )}
+    </GlassPanel>
+  );
+};
+
+export default InquiryPanel;
@@ -1,10 +1,11 @@
 
 import React from 'react';
-import { GROUP_COLORS, GROUP_SHAPES } from '../constants';
+import { LOW_CONFIDENCE_THRESHOLD } from '../constants';
 import { usePrismStore } from '../store/prismStore';
 import { GlassPanel } from './shared/GlassPanel';
+import { Pencil } from 'lucide-react';
 
-const ShapeIcon: React.FC<{ shape: string; color: string }> = ({ shape, color }) => {
+export const ShapeIcon: React.FC<{ shape: string; color: string }> = ({ shape, color }) => {
   const renderPath = () => {
     switch (shape) {
       case 'circle': return <circle cx="8" cy="8" r="6" fill={color} />;
@@ -25,27 +26,61 @@ const ShapeIcon: React.FC<{ shape: string; color: string }> = ({ shape, color })
 };
 
 const LegendPanel: React.FC = () => {
-  const { ui } = usePrismStore();
-  const categories = Object.keys(GROUP_COLORS).filter(k => k !== 'default');
-  
+  const { ui, ontology, hideLowConfidence, toggleLowConfidenceFilter, toggleOntologyPanel } = usePrismStore();
+
   const isVisible = ui.isSidebarOpen && ui.isLegendOpen;
 
   return (
     <GlassPanel isOpen={isVisible} positionClasses="bottom-6 left-20" widthClasses="max-w-[200px]">
-      <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4 border-b border-slate-100 pb-2">Ontology Key</h3>
+      <div className="flex items-center justify-between mb-4 border-b border-slate-100 pb-2">
+        <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 truncate" title={ontology.name}>
+          Ontology Key <span className="normal-case tracking-normal font-medium">· {ontology.name}</span>
+        </h3>
+        <button onClick={toggleOntologyPanel} className="p-0.5 text-slate-400 hover:text-cyan-600" title="Edit ontology">
+          <Pencil className="w-3 h-3" />
+        </button>
+      </div>
       <div className="space-y-3">
-        {categories.map(cat => (
-          <div key={cat} className="flex items-center gap-3 group cursor-default">
+        {ontology.groups.map(group => (
+          <div key={group.label} className="flex items-center gap-3 group cursor-default" title={group.types.length ? `Types: ${group.types.join(', ')}` : 'Any type'}>
             <div className="transition-transform duration-300 group-hover:scale-110">
-              <ShapeIcon 
-                shape={GROUP_SHAPES[cat] || 'circle'} 
-                color={GROUP_COLORS[cat]} 
-              />
+              <ShapeIcon shape={group.shape} color={group.color} />
             </div>
-            <span className="text-xs font-semibold text-slate-600 group-hover:text-slate-900 transition-colors">{cat}</span>
+            <span className="text-xs font-semibold text-slate-600 group-hover:text-slate-900 transition-colors">{group.label}</span>
           </div>
         ))}
       </div>
+
+      {/* Relation Vocabulary */}
+      {ontology.relations.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-slate-100">
+          <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-1">Relations</div>
+          <div className="flex flex-wrap gap-1">
+            {ontology.relations.map(relation => (
+              <span key={relation} className="text-[9px] font-mono px-1 rounded bg-slate-100 text-indigo-500">{relation}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Confidence */}
+      <div className="mt-4 pt-3 border-t border-slate-100">
+        <div className="flex items-center gap-3 mb-2" title={`Confidence below ${LOW_CONFIDENCE_THRESHOLD * 100}%, or disputed by a verifier`}>
+          <svg width="16" height="16" viewBox="0 0 16 16" className="overflow-visible opacity-50">
+            <circle cx="8" cy="8" r="6" fill="#64748b" stroke="#0f172a" strokeWidth="1" strokeDasharray="2 1.5" />
+          </svg>
+          <span className="text-xs font-semibold text-slate-600">Low confidence</span>
+        </div>
+        <label className="flex items-center gap-1.5 text-[10px] text-slate-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={hideLowConfidence}
+            onChange={toggleLowConfidenceFilter}
+            className="accent-cyan-600"
+          />
+          Hide low-confidence items
+        </label>
+      </div>
     </GlassPanel>
   );
 };
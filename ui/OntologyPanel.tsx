@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from 'react';
+import { GlassPanel } from './shared/GlassPanel';
+import { ShapeIcon } from './LegendPanel';
+import { usePrismStore } from '../store/prismStore';
+import { ontologyLibrary } from '../services/ontologyLibrary';
+import { NODE_SHAPES, DEFAULT_ONTOLOGY, normalizeRelation } from '../utils/ontology';
+import { NodeShape, Ontology, OntologyGroup } from '../types/prism';
+import { Shapes, Plus, Trash2, Save, X } from 'lucide-react';
+
+// Types and relations are edited as comma-separated text and parsed on save
+type GroupDraft = Omit<OntologyGroup, 'types'> & { types: string };
+type OntologyDraft = Omit<Ontology, 'groups' | 'relations'> & { groups: GroupDraft[]; relations: string };
+
+const toDraft = (ontology: Ontology): OntologyDraft => ({
+  ...ontology,
+  groups: ontology.groups.map(g => ({ ...g, types: g.types.join(', ') })),
+  relations: ontology.relations.join(', ')
+});
+
+const splitList = (text: string) => Array.from(new Set(text.split(',').map(t => t.trim()).filter(Boolean)));
+
+const fromDraft = (draft: OntologyDraft): Ontology => ({
+  ...draft,
+  name: draft.name.trim(),
+  groups: draft.groups.map(g => ({ ...g, label: g.label.trim(), types: splitList(g.types) })),
+  relations: Array.from(new Set(splitList(draft.relations).map(normalizeRelation).filter(Boolean)))
+});
+
+// Returns a reason the ontology cannot be saved, if any
+const checkOntology = (ontology: Ontology): string | null => {
+  if (!ontology.name) return 'Give the ontology a name.';
+  if (ontology.groups.length === 0) return 'Define at least one group.';
+  if (ontology.groups.some(g => !g.label)) return 'Every group needs a label.';
+  const labels = ontology.groups.map(g => g.label.toLowerCase());
+  if (new Set(labels).size !== labels.length) return 'Group labels must be unique.';
+  // Strict ontologies drop what does not fit, so only lenient ones map onto a fallback
+  if (!ontology.strict && !ontology.groups.some(g => g.label === ontology.fallbackGroup)) return 'Pick a fallback group from the list.';
+  return null;
+};
+
+const OntologyPanel: React.FC = () => {
+  const { ui, ontology, setOntology, toggleOntologyPanel } = usePrismStore();
+  const [saved, setSaved] = useState<Ontology[]>([]);
+  const [draft, setDraft] = useState<OntologyDraft>(toDraft(ontology));
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isVisible = ui.isSidebarOpen && ui.isOntologyPanelOpen;
+
+  // --- LIBRARY ---
+
+  const refreshSaved = () => {
+    ontologyLibrary.list().then(setSaved)
+      .catch(e => console.error("[Ontology] Failed to list ontologies", e));
+  };
+
+  useEffect(() => {
+    if (!isVisible) return;
+    setDraft(toDraft(ontology));
+    setError('');
+    refreshSaved();
+  }, [isVisible, ontology]);
+
+  const handleLoad = (name: string) => {
+    const match = saved.find(o => o.name === name);
+    if (match) setDraft(toDraft(match));
+    setError('');
+  };
+
+  const handleActivate = async () => {
+    const next = fromDraft(draft);
+    const problem = checkOntology(next);
+    if (problem) return setError(problem);
+
+    setIsSaving(true);
+    try {
+      setOntology(await ontologyLibrary.activate(next));
+      setError('');
+    } catch (e) {
+      console.error("[Ontology] Failed to save ontology", e);
+      setError('Saving failed. See the console for details.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    await ontologyLibrary.remove(draft.name).catch(e => console.error("[Ontology] Failed to remove ontology", e));
+    // Removing the active ontology hands over to the next most recent one
+    if (draft.name === ontology.name) setOntology(await ontologyLibrary.getActive());
+    else setDraft(toDraft(ontology));
+    refreshSaved();
+  };
+
+  // --- DRAFT EDITING ---
+
+  const updateGroup = (idx: number, changes: Partial<GroupDraft>) =>
+    setDraft(d => ({ ...d, groups: d.groups.map((g, i) => i === idx ? { ...g, ...changes } : g) }));
+
+  const addGroup = () =>
+    setDraft(d => ({ ...d, groups: [...d.groups, { label: '', types: '', color: '#64748b', shape: 'circle' }] }));
+
+  const removeGroup = (idx: number) =>
+    setDraft(d => ({ ...d, groups: d.groups.filter((_, i) => i !== idx) }));
+
+  const isSaved = saved.some(o => o.name === draft.name.trim() && o.activatedAt > 0);
+
+  return (
+    <GlassPanel isOpen={isVisible} positionClasses="bottom-6 left-[18rem]" widthClasses="w-[380px]">
+      <div className="flex items-center justify-between mb-4 border-b border-slate-100 pb-3">
+        <div className="flex items-center gap-2">
+          <Shapes className="w-5 h-5 text-rose-500" />
+          <h2 className="text-sm font-bold uppercase tracking-widest text-slate-700">Ontology</h2>
+        </div>
+        <button onClick={toggleOntologyPanel} className="p-1 text-slate-400 hover:text-slate-600" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-4 max-h-[70vh] overflow-y-auto custom-scrollbar pr-1">
+        {/* Library */}
+        <div className="flex gap-2">
+          <select
+            value={saved.some(o => o.name === draft.name) ? draft.name : ''}
+            onChange={(e) => handleLoad(e.target.value)}
+            className="flex-1 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 pl-2 pr-6 outline-none focus:border-cyan-400 font-medium cursor-pointer"
+          >
+            <option value="" disabled>Load saved ontology...</option>
+            {saved.map(o => (
+              <option key={o.name} value={o.name}>{o.name}{o.name === ontology.name ? ' (active)' : ''}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleRemove}
+            disabled={!isSaved}
+            title={draft.name === DEFAULT_ONTOLOGY.name ? 'Restore the built-in default' : 'Delete this ontology'}
+            className="p-1.5 rounded-md border border-slate-200 text-slate-500 hover:text-rose-500 hover:border-rose-300 disabled:opacity-50"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-[9px] text-slate-500 font-bold mb-1">NAME</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 px-2 outline-none focus:border-cyan-400"
+          />
+        </div>
+
+        {/* Groups */}
+        <div>
+          <label className="block text-[9px] text-slate-500 font-bold mb-1">GROUPS & NODE TYPES</label>
+          <div className="space-y-1.5">
+            {draft.groups.map((group, idx) => (
+              <div key={idx} className="flex items-center gap-1.5">
+                <input
+                  type="color"
+                  value={group.color}
+                  onChange={(e) => updateGroup(idx, { color: e.target.value })}
+                  className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer flex-shrink-0"
+                  title="Colour"
+                />
+                <div className="relative flex-shrink-0" title="Shape">
+                  <select
+                    value={group.shape}
+                    onChange={(e) => updateGroup(idx, { shape: e.target.value as NodeShape })}
+                    className="absolute inset-0 opacity-0 cursor-pointer"
+                  >
+                    {NODE_SHAPES.map(shape => <option key={shape} value={shape}>{shape}</option>)}
+                  </select>
+                  <ShapeIcon shape={group.shape} color={group.color} />
+                </div>
+                <input
+                  type="text"
+                  value={group.label}
+                  onChange={(e) => updateGroup(idx, { label: e.target.value })}
+                  placeholder="Group"
+                  className="w-24 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1 px-1.5 outline-none focus:border-cyan-400 font-semibold"
+                />
+                <input
+                  type="text"
+                  value={group.types}
+                  onChange={(e) => updateGroup(idx, { types: e.target.value })}
+                  placeholder="Types (any)"
+                  className="flex-1 min-w-0 bg-slate-50 border border-slate-200 text-[11px] text-slate-600 rounded-md py-1 px-1.5 outline-none focus:border-cyan-400"
+                />
+                <button onClick={() => removeGroup(idx)} className="p-1 text-slate-300 hover:text-rose-500" title="Remove group">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button onClick={addGroup} className="mt-1.5 flex items-center gap-1 text-[10px] font-bold text-cyan-600 hover:text-cyan-500">
+            <Plus className="w-3 h-3" /> ADD GROUP
+          </button>
+        </div>
+
+        {/* Relations */}
+        <div>
+          <label className="block text-[9px] text-slate-500 font-bold mb-1">RELATION VOCABULARY</label>
+          <textarea
+            value={draft.relations}
+            onChange={(e) => setDraft({ ...draft, relations: e.target.value })}
+            rows={2}
+            placeholder="Empty allows any relation, e.g. FOUNDED, WORKS_FOR, LOCATED_IN"
+            className="w-full bg-slate-50 border border-slate-200 text-[11px] text-slate-700 rounded-md py-1.5 px-2 outline-none focus:border-cyan-400 font-mono resize-y"
+          />
+        </div>
+
+        {/* Off-ontology policy */}
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="text-[9px] text-slate-500 font-bold">REJECT OFF-ONTOLOGY OUTPUT</label>
+            <button
+              onClick={() => setDraft({ ...draft, strict: !draft.strict })}
+              className={`relative w-9 h-5 rounded-full transition-colors duration-300 ${draft.strict ? 'bg-cyan-500' : 'bg-slate-300'}`}
+            >
+              <div className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow-md transition-transform duration-300 ${draft.strict ? 'translate-x-4' : 'translate-x-0'}`} />
+            </button>
+          </div>
+          {!draft.strict && (
+            <div className="flex items-center gap-2 mt-1.5">
+              <label className="text-[9px] text-slate-500 font-bold whitespace-nowrap">FALLBACK GROUP</label>
+              <select
+                value={draft.fallbackGroup}
+                onChange={(e) => setDraft({ ...draft, fallbackGroup: e.target.value })}
+                className="flex-1 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1 pl-2 pr-6 outline-none focus:border-cyan-400 cursor-pointer"
+              >
+                {!draft.groups.some(g => g.label.trim() === draft.fallbackGroup) && <option value={draft.fallbackGroup}>{draft.fallbackGroup || '—'}</option>}
+                {draft.groups.filter(g => g.label.trim()).map(g => <option key={g.label} value={g.label.trim()}>{g.label.trim()}</option>)}
+              </select>
+            </div>
+          )}
+          <p className="text-[10px] text-slate-400 leading-tight mt-1">
+            {draft.strict
+              ? "Nodes and links outside the ontology are discarded and reported in provenance."
+              : "Unknown groups, types and relations are mapped to the closest term; groups with no close match go to the fallback, relations to RELATED_TO."}
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="text-[10px] text-rose-500 mt-3">{error}</p>}
+      <button
+        onClick={handleActivate}
+        disabled={isSaving}
+        className="mt-4 w-full flex items-center justify-center gap-1.5 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white text-xs font-bold tracking-wider"
+      >
+        <Save className="w-3.5 h-3.5" /> SAVE & ACTIVATE
+      </button>
+      <p className="text-[10px] text-slate-400 leading-tight mt-1">
+        Applies to the next generation. Existing nodes keep their groups.
+      </p>
+    </GlassPanel>
+  );
+};
+
+export default OntologyPanel;
@@ -2,10 +2,11 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { usePrismStore } from '../store/prismStore';
 import { generateGraphFromTopic, findCorrelation } from '../services/aiService';
-import { AppStatus, ResearchNode } from '../types/prism';
-import { Search, BrainCircuit, AlertCircle, Loader2, MousePointer2, Link2, ArrowRight, X, ChevronDown, Zap, Server } from 'lucide-react';
-import { GROUP_COLORS } from '../constants';
+import { AppStatus, ResearchNode, GraphData, AIProgressEvent } from '../types/prism';
+import { Search, BrainCircuit, AlertCircle, Loader2, MousePointer2, Link2, ArrowRight, X, ChevronDown, Zap, Server, DatabaseZap } from 'lucide-react';
+import { getGroupStyle } from '../utils/ontology';
 import { GlassPanel } from './shared/GlassPanel';
+import { runRequest, integrateGraph } from './shared/aiRequest';
 
 // -----------------------------------------------------------------------------
 // HELPER: Autocomplete Component
@@ -26,6 +27,7 @@ const NodeAutocomplete: React.FC<NodeAutocompleteProps> = ({
   const [isFocused, setIsFocused] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const selectedNode = nodes.find(n => n.id === selectedId);
+  const ontology = usePrismStore(state => state.ontology);
 
   // Sync internal query with external selection
   useEffect(() => {
@@ -82,7 +84,7 @@ const NodeAutocomplete: React.FC<NodeAutocompleteProps> = ({
       <div className="relative group">
         <div className="absolute left-3 top-2.5 text-slate-400">
            {selectedNode ? (
-             <div className="w-2 h-2 rounded-full" style={{ backgroundColor: GROUP_COLORS[selectedNode.groupLabel] }} />
+             <div className="w-2 h-2 rounded-full" style={{ backgroundColor: getGroupStyle(ontology, selectedNode.groupLabel).color }} />
            ) : (
              <Search className="w-4 h-4" />
            )}
@@ -113,7 +115,7 @@ const NodeAutocomplete: React.FC<NodeAutocompleteProps> = ({
                   onClick={() => handleSelect(node.id)}
                   className="w-full text-left px-3 py-2 text-xs hover:bg-slate-50 flex items-center gap-2 border-b border-slate-50 last:border-0"
                 >
-                  <span className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: GROUP_COLORS[node.groupLabel] }} />
+                  <span className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: getGroupStyle(ontology, node.groupLabel).color }} />
                   <span className="text-slate-700 truncate font-medium">{node.label}</span>
                   <span className="text-[9px] text-slate-400 ml-auto uppercase">{node.type}</span>
                 </button>
@@ -134,33 +136,29 @@ const NodeAutocomplete: React.FC<NodeAutocompleteProps> = ({
 // -----------------------------------------------------------------------------
 
 const ResearchPanel: React.FC = () => {
-  const { status, setStatus, addGraphData, saveToDb, nodes, links, hoveredNode, ui, selectedNode, activeProvider, providerStats, aiSettings } = usePrismStore();
+  const { status, nodes, links, hoveredNode, ui, selectedNode, ontology, activeProvider, providerStats, aiSettings, cancelRequest, setPendingGraph } = usePrismStore();
   const [activeTab, setActiveTab] = useState<'target' | 'correlation'>('target');
   
   // Tab State
   const [topic, setTopic] = useState('');
   const [sourceId, setSourceId] = useState('');
   const [targetId, setTargetId] = useState('');
+  const [bypassCache, setBypassCache] = useState(false);
 
   // Process State
   const [progress, setProgress] = useState(0);
   const [loadingStage, setLoadingStage] = useState('');
-  const progressTimer = useRef<number | null>(null);
 
   const isVisible = ui.isSidebarOpen && ui.isResearchPanelOpen;
+  const isBusy = status === AppStatus.GENERATING || status === AppStatus.SWITCHING_PROVIDER;
 
   // --- ACTIONS ---
 
   const handleGenerate = async () => {
     if (!topic.trim()) return;
-    startLoading("Initializing Neural Handshake...");
-    
-    try {
-      const data = await generateGraphFromTopic(topic);
-      finishLoading("Integration Complete.", data);
-    } catch (e) {
-      handleError(e);
-    }
+    await research(`Planning route for "${topic}"...`, signal =>
+      generateGraphFromTopic(topic, { signal, bypassCache, onProgress: trackProgress(signal) })
+    );
   };
 
   const handleCorrelate = async () => {
@@ -169,49 +167,62 @@ const ResearchPanel: React.FC = () => {
     const nodeB = nodes.find(n => n.id === targetId);
     if (!nodeA || !nodeB) return;
 
-    startLoading(`Locking Targets: ${nodeA.label} <-> ${nodeB.label}`);
-    
-    try {
-      const data = await findCorrelation(nodeA, nodeB);
-      finishLoading("Correlation Established.", data);
-    } catch (e) {
-      handleError(e);
-    }
+    await research(`Locking Targets: ${nodeA.label} <-> ${nodeB.label}`, signal =>
+      findCorrelation(nodeA, nodeB, { signal, bypassCache, onProgress: trackProgress(signal) })
+    );
   };
 
   // --- UTILS ---
 
-  const startLoading = (stage: string) => {
-    setStatus(AppStatus.GENERATING);
-    setProgress(5);
+  // One generation, integrated into the workspace under the shared request lifecycle
+  const research = async (stage: string, generate: (signal: AbortSignal) => Promise<GraphData>) => {
+    setProgress(0);
     setLoadingStage(stage);
-    if (progressTimer.current) clearInterval(progressTimer.current);
-    progressTimer.current = window.setInterval(() => {
-      setProgress((prev) => prev >= 92 ? 92 : prev + Math.random() * 8);
-    }, 400);
+    setPendingGraph(null);
+
+    const data = await runRequest(async signal => {
+      const data = await generate(signal);
+      await integrateGraph(data, signal, setLoadingStage);
+      return data;
+    }, {
+      onCancel: resetLoading,
+      onError: resetLoading
+    });
+    if (data) finishLoading(data);
+  };
+
+  // Progress comes from the entities actually parsed off the stream
+  const trackProgress = (signal: AbortSignal) => (event: AIProgressEvent) => {
+    if (signal.aborted) return;
+    setLoadingStage(event.stage);
+    if (event.progress !== undefined) setProgress(event.progress * 100);
+    if (event.partial) setPendingGraph(event.partial);
+  };
+
+  const resetLoading = () => {
+    setProgress(0);
+    setLoadingStage("");
+    setPendingGraph(null);
   };
 
-  const finishLoading = (msg: string, data: any) => {
-    if (progressTimer.current) clearInterval(progressTimer.current);
+  // The completed bar lingers briefly before the panel settles
+  const finishLoading = (data: GraphData) => {
+    // Every node of a response carries the same validation report
+    const issues = data.nodes[0]?.researchMetadata?.validation || [];
+    const rejected = issues.filter(issue => issue.action === 'rejected').length;
+    const fixed = issues.length - rejected;
+    const notes = [fixed && `${fixed} repaired`, rejected && `${rejected} rejected`].filter(Boolean).join(', ');
     setProgress(100);
-    setLoadingStage(msg);
+    setLoadingStage(`Integrated ${data.nodes.length} nodes, ${data.links.length} links${notes ? ` (${notes})` : ''}.`);
     setTimeout(() => {
-      addGraphData(data.nodes, data.links);
-      saveToDb();
-      setTimeout(() => {
-        setStatus(AppStatus.IDLE);
-        setProgress(0);
-        setLoadingStage("");
-      }, 800);
-    }, 500);
+      setProgress(0);
+      setLoadingStage("");
+    }, 800);
   };
 
-  const handleError = (e: any) => {
-    if (progressTimer.current) clearInterval(progressTimer.current);
-    console.error(e);
-    setStatus(AppStatus.ERROR);
-    setLoadingStage("Process Failed.");
-    setTimeout(() => setStatus(AppStatus.IDLE), 3000);
+  const handleCancel = () => {
+    cancelRequest();
+    resetLoading();
   };
 
   const getProviderColor = (name: string) => {
@@ -222,6 +233,9 @@ const ResearchPanel: React.FC = () => {
   };
 
   const displayProvider = !aiSettings.autoMode ? aiSettings.selectedProvider : activeProvider;
+  const quotaPercent = providerStats && providerStats.totalMax > 0
+    ? (providerStats.totalRemaining / providerStats.totalMax) * 100
+    : 0;
 
   return (
     <GlassPanel isOpen={isVisible} positionClasses="top-4 left-20">
@@ -238,6 +252,25 @@ const ResearchPanel: React.FC = () => {
         </div>
       </div>
 
+      {/* QUOTA (Real usage reported by the last provider engaged) */}
+      {providerStats && (
+        <div className="-mt-2 mb-4">
+          <div className="flex justify-between text-[9px] font-mono text-slate-400 mb-1">
+            <span>{providerStats.name.toUpperCase()} BUDGET</span>
+            <span title="Prompt / completion tokens consumed">
+              {Math.floor(providerStats.totalRemaining / 1000)}k / {Math.floor(providerStats.totalMax / 1000)}k
+              <span className="text-slate-300"> ({providerStats.promptTokens.toLocaleString()} in · {providerStats.completionTokens.toLocaleString()} out)</span>
+            </span>
+          </div>
+          <div className="h-1 w-full bg-slate-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-500 ${quotaPercent < 20 ? 'bg-amber-400' : 'bg-emerald-400'}`}
+              style={{ width: `${quotaPercent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* TABS */}
       <div className="flex bg-slate-100 p-1 rounded-lg mb-5">
         <button 
@@ -264,16 +297,16 @@ const ResearchPanel: React.FC = () => {
                 value={topic}
                 onChange={(e) => setTopic(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleGenerate()}
-                disabled={status === AppStatus.GENERATING}
+                disabled={isBusy}
                 className="w-full bg-slate-50 border border-slate-200 rounded-lg pl-3 pr-2 py-2 text-sm focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all placeholder:text-slate-400"
                 placeholder="Inject Topic..."
               />
               <button 
                 onClick={handleGenerate}
-                disabled={status === AppStatus.GENERATING}
+                disabled={isBusy}
                 className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-200 disabled:text-slate-400 text-white p-2 rounded-lg shadow-lg active:scale-95 transition-all"
               >
-                {status === AppStatus.GENERATING ? <Loader2 className="w-5 h-5 animate-spin" /> : <Search className="w-5 h-5" />}
+                {isBusy ? <Loader2 className="w-5 h-5 animate-spin" /> : <Search className="w-5 h-5" />}
               </button>
             </div>
           </div>
@@ -298,14 +331,27 @@ const ResearchPanel: React.FC = () => {
              />
              <button 
                onClick={handleCorrelate}
-               disabled={status === AppStatus.GENERATING || !sourceId || !targetId || sourceId === targetId}
+               disabled={isBusy || !sourceId || !targetId || sourceId === targetId}
                className="w-full mt-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-200 disabled:text-slate-400 text-white p-2 rounded-lg shadow-lg active:scale-95 transition-all flex items-center justify-center gap-2 text-xs font-bold"
              >
-               {status === AppStatus.GENERATING ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+               {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
                RUN CORRELATION
              </button>
           </div>
         )}
+
+        {aiSettings.cacheTtlHours > 0 && (
+          <label className="flex items-center gap-1.5 mt-2 text-[10px] text-slate-500 cursor-pointer w-fit" title="Ignore cached answers and query the provider again">
+            <input
+              type="checkbox"
+              checked={bypassCache}
+              onChange={(e) => setBypassCache(e.target.checked)}
+              disabled={isBusy}
+              className="accent-cyan-600"
+            />
+            <DatabaseZap className="w-3 h-3" /> Bypass response cache
+          </label>
+        )}
       </div>
 
       {/* FOOTER / STATUS */}
@@ -314,7 +360,7 @@ const ResearchPanel: React.FC = () => {
             <MousePointer2 className={`w-3 h-3 ${hoveredNode ? 'text-cyan-500' : 'text-slate-300'}`} />
             <span className="text-xs font-semibold text-slate-600 truncate">
                Entity: {hoveredNode ? (
-                 <span style={{ color: GROUP_COLORS[hoveredNode.groupLabel] }}>{hoveredNode.label}</span>
+                 <span style={{ color: getGroupStyle(ontology, hoveredNode.groupLabel).color }}>{hoveredNode.label}</span>
                ) : (
                  <span className="text-slate-400 italic">No Selection</span>
                )}
@@ -328,11 +374,22 @@ const ResearchPanel: React.FC = () => {
             </div>
          )}
 
-         {status === AppStatus.GENERATING && (
+         {(isBusy || progress > 0) && (
            <div className="animate-in fade-in slide-in-from-top-2 duration-300">
-             <div className="flex justify-between items-end mb-1">
-               <span className="text-[10px] font-mono text-cyan-700 truncate max-w-[80%]">{loadingStage}</span>
-               <span className="text-[10px] font-bold text-cyan-600">{Math.round(progress)}%</span>
+             <div className="flex justify-between items-end mb-1 gap-2">
+               <span className="text-[10px] font-mono text-cyan-700 truncate max-w-[70%]">{loadingStage}</span>
+               <span className="flex items-center gap-2">
+                 <span className="text-[10px] font-bold text-cyan-600">{Math.round(progress)}%</span>
+                 {isBusy && (
+                   <button
+                     onClick={handleCancel}
+                     className="flex items-center gap-0.5 text-[9px] font-bold text-rose-500 hover:text-rose-600 bg-rose-50 px-1.5 py-0.5 rounded border border-rose-100"
+                     title="Cancel request"
+                   >
+                     <X className="w-3 h-3" /> CANCEL
+                   </button>
+                 )}
+               </span>
              </div>
              <div className="h-1.5 w-full bg-slate-200 rounded-full overflow-hidden">
                <div 
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { GlassPanel } from './shared/GlassPanel';
+import { usePrismStore } from '../store/prismStore';
+import { getGroupStyle } from '../utils/ontology';
+import { linkKey } from '../utils/graphUtils';
+import { displayRelation } from '../utils/relations';
+import { ResearchNode } from '../types/prism';
+import { BoxSelect, GitMerge, Split, Undo2, X, ArrowRight, ArrowLeft } from 'lucide-react';
+
+const endpointId = (end: string | ResearchNode) => typeof end === 'object' ? end.id : end;
+
+const SelectionPanel: React.FC = () => {
+  const {
+    ui, nodes, links, ontology, markedNodeIds, undoStack, activeRequest,
+    toggleMarkedNode, clearMarkedNodes, mergeMarkedNodes, splitNode, undo, saveToDb, focusCamera
+  } = usePrismStore();
+  const [keepId, setKeepId] = useState('');
+  const [splitLabel, setSplitLabel] = useState('');
+  const [movedKeys, setMovedKeys] = useState<string[]>([]);
+
+  const marked = markedNodeIds.map(id => nodes.find(n => n.id === id)).filter((n): n is ResearchNode => !!n);
+  const isVisible = ui.isSidebarOpen && marked.length > 0;
+  const splitting = marked.length === 1 ? marked[0] : null;
+
+  // The merge target defaults to the first node picked; split state starts fresh per node
+  useEffect(() => {
+    if (!markedNodeIds.includes(keepId)) setKeepId(markedNodeIds[0] || '');
+  }, [markedNodeIds]);
+
+  useEffect(() => {
+    setSplitLabel('');
+    setMovedKeys([]);
+  }, [splitting?.id]);
+
+  const incident = splitting
+    ? links.filter(l => endpointId(l.source) === splitting.id || endpointId(l.target) === splitting.id)
+    : [];
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label || id;
+
+  const handleMerge = () => {
+    mergeMarkedNodes(keepId);
+    saveToDb();
+  };
+
+  const handleSplit = () => {
+    if (!splitting || !splitLabel.trim()) return;
+    focusCamera(splitNode(splitting.id, splitLabel, movedKeys));
+    saveToDb();
+  };
+
+  const handleUndo = () => {
+    undo();
+    saveToDb();
+  };
+
+  const toggleMoved = (key: string) =>
+    setMovedKeys(keys => keys.includes(key) ? keys.filter(k => k !== key) : [...keys, key]);
+
+  return (
+    <GlassPanel isOpen={isVisible} positionClasses="bottom-6 right-4" widthClasses="w-[340px]">
+      <div className="flex items-center justify-between mb-3 border-b border-slate-100 pb-3">
+        <div className="flex items-center gap-2">
+          <BoxSelect className="w-5 h-5 text-violet-600" />
+          <h2 className="text-sm font-bold uppercase tracking-widest text-slate-700">Selection</h2>
+          <span className="text-[10px] font-mono text-slate-400">{marked.length}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {undoStack.length > 0 && (
+            <button
+              onClick={handleUndo}
+              disabled={!!activeRequest}
+              className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30"
+              title={activeRequest ? 'Undo is unavailable while a request runs' : `Undo: ${undoStack[undoStack.length - 1].label}`}
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={clearMarkedNodes} className="p-1 text-slate-400 hover:text-slate-600" title="Clear selection">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Marked Nodes */}
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {marked.map(node => (
+          <span key={node.id} className="flex items-center gap-1 pl-1.5 pr-1 py-0.5 rounded-md bg-slate-50 border border-slate-200 text-[11px] text-slate-700">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getGroupStyle(ontology, node.groupLabel).color }} />
+            {node.label}
+            <button onClick={() => toggleMarkedNode(node.id)} className="text-slate-300 hover:text-rose-500" title="Remove from selection">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {marked.length > 1 && (
+        <div>
+          <label className="block text-[9px] text-slate-500 font-bold mb-1">MERGE INTO</label>
+          <div className="flex gap-2">
+            <select
+              value={keepId}
+              onChange={(e) => setKeepId(e.target.value)}
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 pl-2 pr-6 outline-none focus:border-cyan-400 font-medium cursor-pointer"
+            >
+              {marked.map(node => <option key={node.id} value={node.id}>{node.label}</option>)}
+            </select>
+            <button
+              onClick={handleMerge}
+              className="flex items-center gap-1 px-3 rounded-lg bg-slate-800 hover:bg-slate-700 text-white text-[10px] font-bold tracking-wider"
+            >
+              <GitMerge className="w-3.5 h-3.5" /> MERGE
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight mt-1">
+            The other {marked.length - 1} node{marked.length > 2 ? 's are' : ' is'} folded in: links are re-pointed, tags, aliases and evidence unioned.
+          </p>
+        </div>
+      )}
+
+      {splitting && (
+        <div>
+          <label className="block text-[9px] text-slate-500 font-bold mb-1">SPLIT OFF A NEW NODE</label>
+          <input
+            type="text"
+            value={splitLabel}
+            onChange={(e) => setSplitLabel(e.target.value)}
+            placeholder={`Label, e.g. ${splitting.label} (2)`}
+            className="w-full bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 px-2 outline-none focus:border-cyan-400"
+          />
+          <label className="block text-[9px] text-slate-500 font-bold mt-2 mb-1">LINKS THAT MOVE TO IT</label>
+          {incident.length === 0 ? (
+            <p className="text-[10px] text-slate-400">{splitting.label} has no links.</p>
+          ) : (
+            <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar pr-1">
+              {incident.map(link => {
+                const key = linkKey(link);
+                const isOutgoing = endpointId(link.source) === splitting.id;
+                const other = labelOf(isOutgoing ? endpointId(link.target) : endpointId(link.source));
+                return (
+                  <li key={key}>
+                    <label className="flex items-center gap-2 text-[11px] text-slate-600 cursor-pointer">
+                      <input type="checkbox" checked={movedKeys.includes(key)} onChange={() => toggleMoved(key)} className="accent-violet-600" />
+                      {isOutgoing ? <ArrowRight className="w-3 h-3 text-slate-300 flex-shrink-0" /> : <ArrowLeft className="w-3 h-3 text-slate-300 flex-shrink-0" />}
+                      <span className="font-mono text-[10px] text-indigo-500" title={link.relation}>{displayRelation(link)}</span>
+                      <span className="truncate">{other}</span>
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <button
+            onClick={handleSplit}
+            disabled={!splitLabel.trim()}
+            className="mt-3 w-full flex items-center justify-center gap-1.5 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white text-xs font-bold tracking-wider"
+          >
+            <Split className="w-3.5 h-3.5" /> SPLIT ({movedKeys.length} link{movedKeys.length === 1 ? '' : 's'} move)
+          </button>
+        </div>
+      )}
+    </GlassPanel>
+  );
+};
+
+export default SelectionPanel;
@@ -1,10 +1,61 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { GlassPanel } from './shared/GlassPanel';
 import { usePrismStore } from '../store/prismStore';
 import { aiManager } from '../services/aiService';
-import { Settings, Zap, Cpu, Server, AlertTriangle, Lock } from 'lucide-react';
-import { AIModel } from '../types/prism';
+import { quotaLedger } from '../services/quotaLedger';
+import { responseCache } from '../services/responseCache';
+import { providerFixtures, parseFixtureFile } from '../services/providerFixtures';
+import { promptLibrary, PROMPT_ACTIONS, PROMPT_VARIABLES, findUnknownVariables } from '../services/promptTemplates';
+import { Settings, Zap, Cpu, Server, AlertTriangle, Lock, HardDrive, RefreshCw, Database, Trash2, Disc, Download, Upload, ShieldCheck, ShieldQuestion, Users, FileText, Save, RotateCcw, Tags, Merge, ScanSearch } from 'lucide-react';
+import { MIN_DUPLICATE_SIMILARITY } from '../utils/graphUtils';
+import { AIModel, AIFallbackPolicy, AIProviderMode, QuotaPolicy, QuotaWindow, PromptAction, PromptTemplate, MergeStrategy, NodeMergePolicy } from '../types/prism';
+
+const FALLBACK_POLICY_OPTIONS: { value: AIFallbackPolicy; label: string; hint: string }[] = [
+  { value: 'ANY', label: 'Any provider', hint: 'Walk the full plan until a provider succeeds.' },
+  { value: 'SAME_TIER', label: 'Same tier only', hint: 'Only fall back to models of the same class (reasoning/standard).' },
+  { value: 'NONE', label: 'Disabled', hint: 'Fail the request if the first provider fails.' }
+];
+
+// Reset windows offered per provider. Rolling windows carry their length in hours.
+const QUOTA_WINDOW_OPTIONS: { value: string; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'rolling:24', label: 'Rolling 24h' },
+  { value: 'rolling:168', label: 'Rolling 7d' }
+];
+
+const PROVIDER_MODE_OPTIONS: { value: AIProviderMode; label: string; hint: string }[] = [
+  { value: 'LIVE', label: 'Live', hint: 'Requests go to the configured providers.' },
+  { value: 'RECORD', label: 'Record', hint: 'Live, and every raw provider exchange is captured as a fixture.' },
+  { value: 'REPLAY', label: 'Replay', hint: 'Only recorded fixtures answer. No network, no API keys.' }
+];
+
+const CACHE_TTL_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Disabled' },
+  { value: 1, label: '1 hour' },
+  { value: 24, label: '24 hours' },
+  { value: 168, label: '7 days' },
+  { value: 720, label: '30 days' }
+];
+
+// Providers asked in parallel per generation; 1 means consensus is off
+const CONSENSUS_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: 'Off' },
+  { value: 2, label: '2 providers' },
+  { value: 3, label: '3 providers' },
+  { value: 4, label: '4 providers' }
+];
+
+const SUMMARY_MERGE_OPTIONS: { value: MergeStrategy; label: string; hint: string }[] = [
+  { value: 'keep', label: 'Keep existing', hint: 'The first summary of a node stays; rediscoveries only add tags, aliases and evidence.' },
+  { value: 'replace', label: 'Take newest', hint: 'The latest generation\'s summary replaces the old one.' },
+  { value: 'concatenate', label: 'Concatenate', hint: 'Differing summaries are appended to each other.' },
+  { value: 'summarize', label: 'AI summarize', hint: 'Differing summaries are rewritten into one by a model. Costs one request per merged node, up to 5 per run.' }
+];
+
+const encodeWindow = (policy: QuotaPolicy) =>
+  policy.window === 'rolling' ? `rolling:${policy.rollingHours}` : policy.window;
 
 const SettingsPanel: React.FC = () => {
   const { 
@@ -12,6 +63,16 @@ const SettingsPanel: React.FC = () => {
     setAIAutoMode, 
     setAIProvider, 
     setAIModel, 
+    setLocalEndpoint,
+    setFallbackPolicy,
+    setCacheTtl,
+    setProviderMode,
+    setCorrectiveRetry,
+    setVerificationPass,
+    setConsensusSize,
+    setRelationClassifier,
+    setMergePolicy,
+    setDuplicateBand,
     providerStats,
     ui 
   } = usePrismStore();
@@ -20,6 +81,17 @@ const SettingsPanel: React.FC = () => {
 
   // Local state only for stats polling (which changes independently of selection)
   const [allStats, setAllStats] = useState(aiManager.getAllStats());
+  const [endpointDraft, setEndpointDraft] = useState(aiSettings.localEndpoint);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [budgetEdit, setBudgetEdit] = useState<{ key: string; value: string } | null>(null);
+  const [cacheCount, setCacheCount] = useState(0);
+  const [fixtureCount, setFixtureCount] = useState(providerFixtures.count);
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+  const fixtureInput = useRef<HTMLInputElement>(null);
+  const [promptAction, setPromptAction] = useState<PromptAction>('topic');
+  const [promptHistory, setPromptHistory] = useState<PromptTemplate[]>([]);
+  const [promptDraft, setPromptDraft] = useState<PromptTemplate | null>(null);
+  const [isSavingPrompt, setIsSavingPrompt] = useState(false);
   
   // 1. POLLING EFFECT
   useEffect(() => {
@@ -30,8 +102,138 @@ const SettingsPanel: React.FC = () => {
     }
   }, [isSettingsOpen]);
 
+  // 1b. REGISTRY EFFECT: Providers can be (un)registered at runtime
+  useEffect(() => aiManager.subscribe(() => {
+    setAllStats(aiManager.getAllStats());
+
+    // Keep the manual override pointed at something that still exists
+    const { aiSettings: current } = usePrismStore.getState();
+    if (!aiManager.getProvider(current.selectedProvider)) {
+      const fallback = aiManager.getProviders()[0];
+      setAIProvider(fallback?.name || '');
+      setAIModel(fallback?.models[0]?.id || '');
+    }
+  }), []);
+
+  // 1c. DISCOVERY: Pull catalogs from self-hosted endpoints when the panel opens
+  const discoverModels = async () => {
+    setIsDiscovering(true);
+    await aiManager.refreshProviderModels();
+    setIsDiscovering(false);
+  };
+
+  useEffect(() => {
+    if (isSettingsOpen) discoverModels();
+  }, [isSettingsOpen]);
+
+  const handleEndpointCommit = () => {
+    const url = endpointDraft.trim();
+    if (!url || url === aiSettings.localEndpoint) return;
+    setLocalEndpoint(url);
+    discoverModels();
+  };
+
+  // 1d. BUDGET EDITOR: Values are entered in thousands of tokens
+  const commitBudget = (providerName: string, modelId: string) => {
+    // An empty field is a cancelled edit, not a zero budget
+    const thousands = Number(budgetEdit?.value);
+    if (budgetEdit?.value.trim() && Number.isFinite(thousands) && thousands >= 0) {
+      aiManager.setModelBudget(providerName, modelId, Math.round(thousands * 1000));
+    }
+    setBudgetEdit(null);
+  };
+
+  // Cleared or half-typed values leave the band as it is
+  const updateBand = (bound: 'min' | 'max', text: string) => {
+    const value = Number(text);
+    if (!text.trim() || !Number.isFinite(value)) return;
+    setDuplicateBand({ ...aiSettings.duplicateBand, [bound]: value });
+  };
+
+  // 1e. RESPONSE CACHE
+  const refreshCacheCount = () => {
+    responseCache.count().then(setCacheCount)
+      .catch(e => console.error("[Settings] Failed to read response cache", e));
+  };
+
+  useEffect(() => {
+    if (isSettingsOpen) refreshCacheCount();
+  }, [isSettingsOpen]);
+
+  const handleCacheTtlChange = async (hours: number) => {
+    setCacheTtl(hours);
+    if (hours > 0) await responseCache.prune(hours).catch(e => console.error("[Settings] Cache prune failed", e));
+    refreshCacheCount();
+  };
+
+  const handleCacheClear = async () => {
+    await responseCache.clear().catch(e => console.error("[Settings] Cache clear failed", e));
+    refreshCacheCount();
+  };
+
+  // 1f. RECORD / REPLAY FIXTURES
+  useEffect(() => providerFixtures.subscribe(() => setFixtureCount(providerFixtures.count)), []);
+
+  const handleFixtureExport = () => {
+    const blob = new Blob([JSON.stringify(providerFixtures.toFile(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `prism-fixtures-${new Date().toISOString().slice(0, 10)}.json`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFixtureImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      providerFixtures.load(parseFixtureFile(await file.text()));
+      setFixtureError(null);
+    } catch (err) {
+      setFixtureError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // 1g. PROMPT TEMPLATES: The draft starts as the active version (newest first)
+  const loadPromptHistory = async (action: PromptAction) => {
+    try {
+      const history = await promptLibrary.getHistory(action);
+      setPromptHistory(history);
+      setPromptDraft(history[0]);
+    } catch (e) {
+      console.error("[Settings] Failed to load prompt templates", e);
+    }
+  };
+
+  useEffect(() => {
+    if (isSettingsOpen) loadPromptHistory(promptAction);
+  }, [isSettingsOpen, promptAction]);
+
+  const handlePromptSave = async () => {
+    if (!promptDraft) return;
+    setIsSavingPrompt(true);
+    await promptLibrary.save(promptAction, promptDraft).catch(e => console.error("[Settings] Failed to save prompt template", e));
+    await loadPromptHistory(promptAction);
+    setIsSavingPrompt(false);
+  };
+
+  const handlePromptReset = async () => {
+    setIsSavingPrompt(true);
+    await promptLibrary.restore(promptAction, 0).catch(e => console.error("[Settings] Failed to reset prompt template", e));
+    await loadPromptHistory(promptAction);
+    setIsSavingPrompt(false);
+  };
+
+  const handleWindowChange = (providerName: string, value: string) => {
+    const [window, hours] = value.split(':');
+    aiManager.setQuotaWindow(providerName, window as QuotaWindow, hours ? Number(hours) : undefined)
+      .catch(e => console.error("[Settings] Failed to update quota window", e));
+  };
+
   // 2. DERIVED STATE (Single Source of Truth)
-  const currentProviderData = aiManager.getProviders().find(p => p.name === aiSettings.selectedProvider);
+  const currentProviderData = aiManager.getProvider(aiSettings.selectedProvider);
   const availableModels: AIModel[] = currentProviderData ? currentProviderData.models : [];
 
   // 3. PROVIDER CHANGE HANDLER
@@ -39,7 +241,7 @@ const SettingsPanel: React.FC = () => {
     const newProviderName = e.target.value;
     
     // Get new data based on selection
-    const nextProviderData = aiManager.getProviders().find(p => p.name === newProviderName);
+    const nextProviderData = aiManager.getProvider(newProviderName);
     const nextModels = nextProviderData ? nextProviderData.models : [];
 
     // Update Store: Provider
@@ -56,6 +258,11 @@ const SettingsPanel: React.FC = () => {
 
   const isVisible = ui.isSidebarOpen && isSettingsOpen;
 
+  const activePrompt = promptHistory[0];
+  const isPromptDirty = !!promptDraft && !!activePrompt && (['system', 'body', 'nodeCount', 'language'] as const)
+    .some(field => promptDraft[field] !== activePrompt[field]);
+  const unknownVariables = promptDraft ? findUnknownVariables(promptDraft.body) : [];
+
   // Safeguard display value
   const displayModelValue = availableModels.some(m => m.id === aiSettings.selectedModel)
     ? aiSettings.selectedModel
@@ -90,6 +297,348 @@ const SettingsPanel: React.FC = () => {
           </p>
         </div>
 
+        {/* FALLBACK POLICY */}
+        <div>
+          <label className="block text-[9px] text-slate-500 font-bold mb-1">FALLBACK POLICY</label>
+          <select
+            value={aiSettings.fallbackPolicy}
+            onChange={(e) => setFallbackPolicy(e.target.value as AIFallbackPolicy)}
+            className="w-full bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 pl-2 pr-6 outline-none focus:border-cyan-400 font-medium cursor-pointer"
+          >
+            {FALLBACK_POLICY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          <p className="text-[10px] text-slate-400 leading-tight mt-1">
+            {FALLBACK_POLICY_OPTIONS.find(o => o.value === aiSettings.fallbackPolicy)?.hint} Nodes always record the provider that actually answered.
+          </p>
+        </div>
+
+        {/* CORRECTIVE RETRY */}
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold">
+              <ShieldCheck className="w-3 h-3" /> CORRECTIVE RETRY
+            </label>
+            <button 
+              onClick={() => setCorrectiveRetry(!aiSettings.correctiveRetry)}
+              className={`relative w-9 h-5 rounded-full transition-colors duration-300 ${aiSettings.correctiveRetry ? 'bg-cyan-500' : 'bg-slate-300'}`}
+            >
+              <div className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow-md transition-transform duration-300 ${aiSettings.correctiveRetry ? 'translate-x-4' : 'translate-x-0'}`} />
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight">
+            Responses are validated against the graph schema. When items are rejected, the provider is asked once more with the errors.
+          </p>
+        </div>
+
+        {/* CONSENSUS */}
+        <div>
+          <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold mb-1">
+            <Users className="w-3 h-3" /> CONSENSUS
+          </label>
+          <select
+            value={aiSettings.consensusSize}
+            onChange={(e) => setConsensusSize(Number(e.target.value))}
+            className="w-full bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 pl-2 pr-6 outline-none focus:border-cyan-400 font-medium cursor-pointer"
+          >
+            {CONSENSUS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          <p className="text-[10px] text-slate-400 leading-tight mt-1">
+            {aiSettings.consensusSize > 1
+              ? `The same prompt goes to up to ${aiSettings.consensusSize} providers in parallel; results are merged and every entity records how many produced it. Bypasses the response cache.`
+              : "A single provider answers; others are only used as fallbacks."}
+          </p>
+        </div>
+
+        {/* VERIFICATION PASS */}
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold">
+              <ShieldQuestion className="w-3 h-3" /> VERIFICATION PASS
+            </label>
+            <button 
+              onClick={() => setVerificationPass(!aiSettings.verificationPass)}
+              className={`relative w-9 h-5 rounded-full transition-colors duration-300 ${aiSettings.verificationPass ? 'bg-cyan-500' : 'bg-slate-300'}`}
+            >
+              <div className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow-md transition-transform duration-300 ${aiSettings.verificationPass ? 'translate-x-4' : 'translate-x-0'}`} />
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight">
+            A second model, on another provider when possible, confirms or disputes every generated node and link. Costs one extra request per research run.
+          </p>
+        </div>
+
+        {/* RELATION CLASSIFIER */}
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold">
+              <Tags className="w-3 h-3" /> RELATION CLASSIFIER
+            </label>
+            <button 
+              onClick={() => setRelationClassifier(!aiSettings.relationClassifier)}
+              className={`relative w-9 h-5 rounded-full transition-colors duration-300 ${aiSettings.relationClassifier ? 'bg-cyan-500' : 'bg-slate-300'}`}
+            >
+              <div className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow-md transition-transform duration-300 ${aiSettings.relationClassifier ? 'translate-x-4' : 'translate-x-0'}`} />
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight">
+            Relation wordings the synonym table does not recognise are sent to a model to pick a canonical predicate. Costs one extra request when a run has any.
+          </p>
+        </div>
+
+        {/* NODE MERGE */}
+        <div>
+          <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold mb-1">
+            <Merge className="w-3 h-3" /> NODE MERGE
+          </label>
+          <div className="flex gap-2">
+            <select
+              value={aiSettings.mergePolicy.summary}
+              onChange={(e) => setMergePolicy({ summary: e.target.value as MergeStrategy })}
+              className="flex-1 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 pl-2 pr-6 outline-none focus:border-cyan-400 font-medium cursor-pointer"
+              title="Summary"
+            >
+              {SUMMARY_MERGE_OPTIONS.map(o => <option key={o.value} value={o.value}>Summary: {o.label}</option>)}
+            </select>
+            <select
+              value={aiSettings.mergePolicy.type}
+              onChange={(e) => setMergePolicy({ type: e.target.value as NodeMergePolicy['type'] })}
+              className="w-28 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 pl-2 pr-6 outline-none focus:border-cyan-400 font-medium cursor-pointer"
+              title="Type & group"
+            >
+              <option value="keep">Type: Keep</option>
+              <option value="replace">Type: Newest</option>
+            </select>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight mt-1">
+            {SUMMARY_MERGE_OPTIONS.find(o => o.value === aiSettings.mergePolicy.summary)?.hint} Every contributing generation is listed in the node's provenance.
+          </p>
+        </div>
+
+        {/* DUPLICATE REVIEW BAND */}
+        <div>
+          <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold mb-1">
+            <ScanSearch className="w-3 h-3" /> DUPLICATE REVIEW
+          </label>
+          <div className="flex items-center gap-2 text-[10px] text-slate-500">
+            <span>From</span>
+            <input
+              type="number"
+              min={MIN_DUPLICATE_SIMILARITY}
+              max={1}
+              step={0.05}
+              value={aiSettings.duplicateBand.min}
+              onChange={(e) => updateBand('min', e.target.value)}
+              className="w-16 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1 px-2 outline-none focus:border-cyan-400 font-mono"
+            />
+            <span>to</span>
+            <input
+              type="number"
+              min={MIN_DUPLICATE_SIMILARITY}
+              max={1}
+              step={0.05}
+              value={aiSettings.duplicateBand.max}
+              onChange={(e) => updateBand('max', e.target.value)}
+              className="w-16 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1 px-2 outline-none focus:border-cyan-400 font-mono"
+            />
+            <span>similarity</span>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight mt-1">
+            Name matches in this range are queued for review instead of merged; above it they merge automatically. Identical IDs and names always merge.
+          </p>
+        </div>
+
+        {/* PROVIDER MODE (Record / Replay) */}
+        <div>
+          <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold mb-1">
+            <Disc className={`w-3 h-3 ${aiSettings.providerMode === 'RECORD' ? 'text-rose-500 animate-pulse' : ''}`} /> PROVIDER MODE
+          </label>
+          <div className="flex bg-slate-100 p-0.5 rounded-md">
+            {PROVIDER_MODE_OPTIONS.map(o => (
+              <button
+                key={o.value}
+                onClick={() => setProviderMode(o.value)}
+                className={`flex-1 py-1 text-[10px] font-bold rounded transition-all ${aiSettings.providerMode === o.value ? 'bg-white text-cyan-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                {o.label.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 mt-1.5">
+            <span className="text-[10px] text-slate-500 font-mono">{fixtureCount} fixture(s)</span>
+            <div className="ml-auto flex gap-1">
+              <button onClick={handleFixtureExport} disabled={fixtureCount === 0} title="Export fixture file" className="p-1 rounded border border-slate-200 text-slate-500 hover:text-cyan-600 disabled:opacity-50">
+                <Download className="w-3 h-3" />
+              </button>
+              <button onClick={() => fixtureInput.current?.click()} title="Import fixture file" className="p-1 rounded border border-slate-200 text-slate-500 hover:text-cyan-600">
+                <Upload className="w-3 h-3" />
+              </button>
+              <button onClick={() => providerFixtures.clear()} disabled={fixtureCount === 0} title="Discard fixtures" className="p-1 rounded border border-slate-200 text-slate-500 hover:text-rose-500 disabled:opacity-50">
+                <Trash2 className="w-3 h-3" />
+              </button>
+              <input ref={fixtureInput} type="file" accept="application/json,.json" onChange={handleFixtureImport} className="hidden" />
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight mt-1">
+            {PROVIDER_MODE_OPTIONS.find(o => o.value === aiSettings.providerMode)?.hint}
+          </p>
+          {fixtureError && <p className="text-[10px] text-rose-500 leading-tight mt-1">{fixtureError}</p>}
+        </div>
+
+        {/* RESPONSE CACHE */}
+        <div>
+          <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold mb-1">
+            <Database className="w-3 h-3" /> RESPONSE CACHE
+          </label>
+          <div className="flex gap-2">
+            <select
+              value={aiSettings.cacheTtlHours}
+              onChange={(e) => handleCacheTtlChange(Number(e.target.value))}
+              className="flex-1 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 pl-2 pr-6 outline-none focus:border-cyan-400 font-medium cursor-pointer"
+            >
+              {!CACHE_TTL_OPTIONS.some(o => o.value === aiSettings.cacheTtlHours) && (
+                <option value={aiSettings.cacheTtlHours}>{aiSettings.cacheTtlHours} hours</option>
+              )}
+              {CACHE_TTL_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <button
+              onClick={handleCacheClear}
+              disabled={cacheCount === 0}
+              title="Clear cached responses"
+              className="p-1.5 rounded-md border border-slate-200 text-slate-500 hover:text-rose-500 hover:border-rose-300 disabled:opacity-50"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight mt-1">
+            {cacheCount} cached response(s). Identical prompts to the same provider, model and temperature are answered from IndexedDB.
+          </p>
+        </div>
+
+        {/* LOCAL ENDPOINT */}
+        <div>
+          <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold mb-1">
+            <HardDrive className="w-3 h-3" /> LOCAL ENDPOINT (OPENAI-COMPATIBLE)
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={endpointDraft}
+              onChange={(e) => setEndpointDraft(e.target.value)}
+              onBlur={handleEndpointCommit}
+              onKeyDown={(e) => e.key === 'Enter' && handleEndpointCommit()}
+              placeholder="http://localhost:11434"
+              className="flex-1 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 px-2 outline-none focus:border-cyan-400 font-mono"
+            />
+            <button
+              onClick={discoverModels}
+              disabled={isDiscovering}
+              title="Discover models"
+              className="p-1.5 rounded-md border border-slate-200 text-slate-500 hover:text-cyan-600 hover:border-cyan-300 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-3 h-3 ${isDiscovering ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-tight mt-1">
+            {aiManager.getProvider('Local')?.models.length
+              ? `${aiManager.getProvider('Local')!.models.length} local model(s) available.`
+              : "No local models discovered. Ollama, llama.cpp and LM Studio are supported."}
+          </p>
+        </div>
+
+        {/* PROMPT TEMPLATES */}
+        <div>
+          <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold mb-1">
+            <FileText className="w-3 h-3" /> PROMPT TEMPLATES
+          </label>
+          <div className="flex gap-2">
+            <select
+              value={promptAction}
+              onChange={(e) => setPromptAction(e.target.value as PromptAction)}
+              className="flex-1 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 pl-2 pr-6 outline-none focus:border-cyan-400 font-medium cursor-pointer"
+            >
+              {PROMPT_ACTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <select
+              value={promptDraft?.version ?? 0}
+              onChange={(e) => setPromptDraft(promptHistory.find(t => t.version === Number(e.target.value)) || null)}
+              title="Load a version into the editor"
+              className="w-24 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 pl-2 pr-6 outline-none focus:border-cyan-400 font-mono cursor-pointer"
+            >
+              {promptHistory.map((t, idx) => (
+                <option key={t.version} value={t.version}>
+                  {t.version === 0 ? 'built-in' : `v${t.version}`}{idx === 0 ? ' *' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {promptDraft && (
+            <div className="mt-2 space-y-1.5">
+              <input
+                type="text"
+                value={promptDraft.system}
+                onChange={(e) => setPromptDraft({ ...promptDraft, system: e.target.value })}
+                placeholder="System message (empty: provider default)"
+                className="w-full bg-slate-50 border border-slate-200 text-[11px] text-slate-700 rounded-md py-1.5 px-2 outline-none focus:border-cyan-400"
+              />
+              <textarea
+                value={promptDraft.body}
+                onChange={(e) => setPromptDraft({ ...promptDraft, body: e.target.value })}
+                rows={7}
+                spellCheck={false}
+                className="w-full bg-slate-50 border border-slate-200 text-[10px] leading-4 text-slate-700 rounded-md py-1.5 px-2 outline-none focus:border-cyan-400 font-mono resize-y custom-scrollbar"
+              />
+              <div className="flex gap-2 items-center">
+                <label className="text-[9px] text-slate-500 font-bold">NODES</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={promptDraft.nodeCount}
+                  onChange={(e) => setPromptDraft({ ...promptDraft, nodeCount: Number(e.target.value) })}
+                  className="w-14 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1 px-1.5 outline-none focus:border-cyan-400 font-mono"
+                />
+                <label className="text-[9px] text-slate-500 font-bold">LANGUAGE</label>
+                <input
+                  type="text"
+                  value={promptDraft.language}
+                  onChange={(e) => setPromptDraft({ ...promptDraft, language: e.target.value })}
+                  className="flex-1 min-w-0 bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1 px-1.5 outline-none focus:border-cyan-400"
+                />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {PROMPT_VARIABLES.map(v => (
+                  <span key={v.name} title={v.hint} className="text-[9px] font-mono px-1 rounded bg-slate-100 text-slate-500 cursor-help">{`{{${v.name}}}`}</span>
+                ))}
+              </div>
+              {unknownVariables.length > 0 && (
+                <p className="text-[10px] text-amber-600 leading-tight">
+                  Unknown variable(s) sent as written: {unknownVariables.join(', ')}
+                </p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={handlePromptSave}
+                  disabled={!isPromptDirty || !promptDraft.body.trim() || isSavingPrompt}
+                  className="flex-1 flex items-center justify-center gap-1 py-1 rounded-md border border-cyan-200 text-[10px] font-bold text-cyan-700 bg-cyan-50 hover:bg-cyan-100 disabled:opacity-50"
+                >
+                  <Save className="w-3 h-3" /> SAVE AS V{(promptHistory.find(t => t.version > 0)?.version || 0) + 1}
+                </button>
+                <button
+                  onClick={handlePromptReset}
+                  disabled={!activePrompt || activePrompt.version === 0 || isSavingPrompt}
+                  title="Make the built-in template active again"
+                  className="p-1.5 rounded-md border border-slate-200 text-slate-500 hover:text-rose-500 hover:border-rose-300 disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          )}
+          <p className="text-[10px] text-slate-400 leading-tight mt-1">
+            Saving creates a new version; older ones can be loaded and saved again. Nodes record the template version they came from.
+          </p>
+        </div>
+
         {/* MANUAL OVERRIDE SECTION */}
         <div className={`relative transition-all duration-300 ${aiSettings.autoMode ? 'opacity-40 grayscale pointer-events-none' : 'opacity-100'}`}>
            
@@ -114,10 +663,11 @@ const SettingsPanel: React.FC = () => {
                     className="w-full bg-slate-50 border border-slate-200 text-xs text-slate-700 rounded-md py-1.5 pl-2 pr-6 outline-none focus:border-cyan-400 font-medium appearance-none cursor-pointer hover:bg-slate-50"
                  >
                    {aiManager.getProviders().map(p => {
-                     const isExhausted = p.getStats().status === 'EXHAUSTED';
+                     const status = p.getStats().status;
+                     const isExhausted = status === 'EXHAUSTED';
                      return (
                        <option key={p.name} value={p.name} disabled={isExhausted}>
-                         {p.name} {isExhausted ? '(Exhausted)' : ''}
+                         {p.name} {isExhausted ? '(Exhausted)' : ''}{status === 'RATE_LIMITED' ? '(Rate limited)' : ''}{status === 'ERROR' ? '(Error)' : ''}
                        </option>
                      );
                    })}
@@ -152,18 +702,36 @@ const SettingsPanel: React.FC = () => {
 
         {/* LIVE STATS - GRANULAR */}
         <div className="pt-3 border-t border-slate-100 max-h-[200px] overflow-y-auto custom-scrollbar pr-1">
-          <h3 className="text-[10px] font-bold text-slate-400 uppercase mb-3">Live Token Budget</h3>
+          <h3 className="text-[10px] font-bold text-slate-400 uppercase mb-3">Live Token Budget <span className="normal-case font-normal">(click a budget to edit)</span></h3>
           
           <div className="space-y-4">
-            {allStats.map(provider => (
+            {allStats.map(provider => {
+              const windowValue = encodeWindow(quotaLedger.getPolicy(provider.name));
+              return (
               <div key={provider.name} className="space-y-1.5">
                 <div className="flex items-center gap-2">
                   <span className="text-[9px] font-bold text-slate-700 uppercase">{provider.name}</span>
-                  {provider.status === 'EXHAUSTED' && <span className="text-[8px] text-rose-500 font-bold px-1 bg-rose-50 rounded">OFFLINE</span>}
+                  {provider.status === 'EXHAUSTED' && <span className="text-[8px] text-rose-500 font-bold px-1 bg-rose-50 rounded" title={provider.statusReason}>OFFLINE</span>}
+                  {provider.status === 'RATE_LIMITED' && <span className="text-[8px] text-amber-600 font-bold px-1 bg-amber-50 rounded" title={provider.statusReason}>RATE LIMITED</span>}
+                  {provider.status === 'ERROR' && <span className="text-[8px] text-rose-500 font-bold px-1 bg-rose-50 rounded" title={provider.statusReason}>ERROR</span>}
+                  <select
+                    value={windowValue}
+                    onChange={(e) => handleWindowChange(provider.name, e.target.value)}
+                    title="Quota reset window"
+                    className="text-[8px] bg-transparent text-slate-400 border border-slate-200 rounded px-0.5 outline-none cursor-pointer"
+                  >
+                    {!QUOTA_WINDOW_OPTIONS.some(o => o.value === windowValue) && (
+                      <option value={windowValue}>Custom</option>
+                    )}
+                    {QUOTA_WINDOW_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                  <span className="ml-auto text-[8px] font-mono text-slate-400" title="Prompt / completion tokens consumed">
+                    {provider.promptTokens.toLocaleString()} in · {provider.completionTokens.toLocaleString()} out
+                  </span>
                 </div>
                 
                 {provider.models.map(model => {
-                  const percent = (model.remainingTokens / model.maxTokens) * 100;
+                  const percent = model.maxTokens > 0 ? (model.remainingTokens / model.maxTokens) * 100 : 0;
                   const isLow = percent < 20;
                   const isEmpty = model.remainingTokens <= 0;
                   
@@ -173,6 +741,7 @@ const SettingsPanel: React.FC = () => {
                   if (isEmpty) barColor = 'bg-rose-400';
 
                   const isActive = provider.name === aiSettings.selectedProvider && model.id === aiSettings.selectedModel;
+                  const budgetKey = `${provider.name}::${model.id}`;
 
                   return (
                     <div key={model.id} className="bg-slate-50 rounded border border-slate-100 p-1.5">
@@ -181,8 +750,31 @@ const SettingsPanel: React.FC = () => {
                           {model.name}
                           {isLow && !isEmpty && <AlertTriangle className="w-2.5 h-2.5 text-amber-500" />}
                         </span>
-                        <span className="font-mono text-slate-400">
-                           {Math.floor(model.remainingTokens / 1000)}k <span className="text-slate-300">/ {Math.floor(model.maxTokens / 1000)}k</span>
+                        <span className="font-mono text-slate-400 flex items-center gap-1">
+                           {Math.floor(model.remainingTokens / 1000)}k <span className="text-slate-300">/</span>
+                           {budgetEdit?.key === budgetKey ? (
+                             <input
+                               autoFocus
+                               type="number"
+                               min={0}
+                               value={budgetEdit.value}
+                               onChange={(e) => setBudgetEdit({ key: budgetKey, value: e.target.value })}
+                               onBlur={() => commitBudget(provider.name, model.id)}
+                               onKeyDown={(e) => {
+                                 if (e.key === 'Enter') commitBudget(provider.name, model.id);
+                                 if (e.key === 'Escape') setBudgetEdit(null);
+                               }}
+                               className="w-12 bg-white border border-cyan-300 rounded px-1 text-[9px] text-slate-700 outline-none"
+                             />
+                           ) : (
+                             <button
+                               onClick={() => setBudgetEdit({ key: budgetKey, value: String(Math.floor(model.maxTokens / 1000)) })}
+                               className="text-slate-300 hover:text-cyan-600 underline decoration-dotted"
+                               title="Edit budget"
+                             >
+                               {Math.floor(model.maxTokens / 1000)}k
+                             </button>
+                           )}
                         </span>
                       </div>
                       <div className="h-1 w-full bg-slate-200 rounded-full overflow-hidden">
@@ -195,7 +787,8 @@ const SettingsPanel: React.FC = () => {
                   );
                 })}
               </div>
-            ))}
+              );
+            })}
           </div>
         </div>
 
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { Search, Key, BrainCircuit, Settings } from 'lucide-react';
+import { Search, Key, BrainCircuit, Settings, History, MessagesSquare, Shapes, ScanSearch } from 'lucide-react';
 import { usePrismStore } from '../store/prismStore';
 
 const SidebarButton: React.FC<{
@@ -10,7 +10,8 @@ const SidebarButton: React.FC<{
   label: string;
   colorClass?: string;
   isSidebarOpen: boolean;
-}> = ({ icon, isActive, onClick, label, colorClass = 'text-cyan-400', isSidebarOpen }) => (
+  badge?: number; // Pending items, shown as a counter when above zero
+}> = ({ icon, isActive, onClick, label, colorClass = 'text-cyan-400', isSidebarOpen, badge = 0 }) => (
   <div className={`relative group transition-opacity duration-300 ${isSidebarOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
     <button
       onClick={onClick}
@@ -27,6 +28,11 @@ const SidebarButton: React.FC<{
     <div className="absolute left-14 top-1/2 -translate-y-1/2 bg-slate-900 text-white text-[10px] font-bold px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-50">
       {label}
     </div>
+    {badge > 0 && (
+      <div className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 flex items-center justify-center rounded-full bg-amber-500 text-white text-[9px] font-bold pointer-events-none">
+        {badge > 99 ? '99+' : badge}
+      </div>
+    )}
     {isActive && (
       <div className={`absolute -right-1 top-1/2 -translate-y-1/2 w-1 h-1 rounded-full ${colorClass.replace('text-', 'bg-')}`} />
     )}
@@ -40,7 +46,12 @@ const Sidebar: React.FC = () => {
     toggleLegend, 
     toggleSidebar, 
     zoomLevel,
-    toggleSettings
+    toggleSettings,
+    toggleUsagePanel,
+    toggleInquiryPanel,
+    toggleOntologyPanel,
+    toggleReviewPanel,
+    mergeSuggestions
   } = usePrismStore();
   
   const isOpen = ui.isSidebarOpen;
@@ -77,6 +88,31 @@ const Sidebar: React.FC = () => {
             colorClass="text-cyan-400"
             isSidebarOpen={isOpen}
           />
+          <SidebarButton
+            icon={<History className="w-5 h-5" />}
+            isActive={ui.isUsagePanelOpen}
+            onClick={toggleUsagePanel}
+            label="Usage Ledger"
+            colorClass="text-emerald-400"
+            isSidebarOpen={isOpen}
+          />
+          <SidebarButton
+            icon={<MessagesSquare className="w-5 h-5" />}
+            isActive={ui.isInquiryPanelOpen}
+            onClick={toggleInquiryPanel}
+            label="Graph Inquiry"
+            colorClass="text-amber-400"
+            isSidebarOpen={isOpen}
+          />
+          <SidebarButton
+            icon={<ScanSearch className="w-5 h-5" />}
+            isActive={ui.isReviewPanelOpen}
+            onClick={toggleReviewPanel}
+            label="Duplicate Review"
+            colorClass="text-amber-400"
+            isSidebarOpen={isOpen}
+            badge={mergeSuggestions.length}
+          />
         </div>
 
         <div className="flex-1" />
@@ -91,6 +127,14 @@ const Sidebar: React.FC = () => {
             colorClass="text-rose-400"
             isSidebarOpen={isOpen}
           />
+          <SidebarButton
+            icon={<Shapes className="w-5 h-5" />}
+            isActive={ui.isOntologyPanelOpen}
+            onClick={toggleOntologyPanel}
+            label="Ontology Editor"
+            colorClass="text-rose-400"
+            isSidebarOpen={isOpen}
+          />
           
           <div className="flex flex-col items-center">
             <span className="text-[8px] font-bold text-slate-400 uppercase mb-1">ZOOM</span>
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { GlassPanel } from './shared/GlassPanel';
+import { usePrismStore } from '../store/prismStore';
+import { quotaLedger } from '../services/quotaLedger';
+import { UsageSession } from '../types/prism';
+import { History, Trash2, ChevronDown } from 'lucide-react';
+
+const formatTokens = (n: number) => n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+const UsagePanel: React.FC = () => {
+  const { ui, status } = usePrismStore();
+  const [sessions, setSessions] = useState<UsageSession[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(quotaLedger.sessionId);
+
+  const isVisible = ui.isSidebarOpen && ui.isUsagePanelOpen;
+
+  const refresh = async () => {
+    try {
+      setSessions(await quotaLedger.getHistory());
+    } catch (e) {
+      console.error("[UsagePanel] History load failed:", e);
+    }
+  };
+
+  // Reload when opened and whenever a generation settles
+  useEffect(() => {
+    if (isVisible) refresh();
+  }, [isVisible, status]);
+
+  const handleClear = async () => {
+    await quotaLedger.clearHistory();
+    refresh();
+  };
+
+  return (
+    <GlassPanel isOpen={isVisible} positionClasses="top-4 left-[26rem]" widthClasses="w-[340px]">
+      <div className="flex items-center justify-between mb-4 border-b border-slate-100 pb-3">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-emerald-600" />
+          <h2 className="text-sm font-bold uppercase tracking-widest text-slate-700">Usage Ledger</h2>
+        </div>
+        <button
+          onClick={handleClear}
+          disabled={sessions.length === 0}
+          className="p-1 text-slate-400 hover:text-rose-500 disabled:opacity-30"
+          title="Clear history"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="max-h-[60vh] overflow-y-auto custom-scrollbar pr-1 space-y-2">
+        {sessions.length === 0 && (
+          <div className="text-xs text-slate-400 italic text-center py-4">No metered requests recorded yet.</div>
+        )}
+
+        {sessions.map(session => {
+          const isCurrent = session.sessionId === quotaLedger.sessionId;
+          const isExpanded = expandedId === session.sessionId;
+
+          return (
+            <div key={session.sessionId} className="bg-slate-50 rounded border border-slate-200">
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : session.sessionId)}
+                className="w-full flex items-center justify-between p-2 text-left"
+              >
+                <div>
+                  <div className="text-[10px] font-bold text-slate-600 flex items-center gap-1">
+                    {new Date(session.startedAt).toLocaleString()}
+                    {isCurrent && <span className="text-[8px] text-emerald-600 bg-emerald-50 px-1 rounded">CURRENT</span>}
+                  </div>
+                  <div className="text-[9px] font-mono text-slate-400">
+                    {session.entries.length} req · {formatTokens(session.promptTokens)} in · {formatTokens(session.completionTokens)} out
+                  </div>
+                </div>
+                <ChevronDown className={`w-3 h-3 text-slate-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+              </button>
+
+              {isExpanded && (
+                <div className="border-t border-slate-200 divide-y divide-slate-100">
+                  {session.entries.map(entry => (
+                    <div key={entry.id} className="px-2 py-1.5 text-[9px]">
+                      <div className="flex justify-between">
+                        <span className="font-semibold text-slate-600 truncate max-w-[60%]" title={entry.label}>{entry.label || 'Unlabelled request'}</span>
+                        <span className="font-mono text-slate-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                      </div>
+                      <div className="flex justify-between font-mono text-slate-400">
+                        <span>{entry.provider}::{entry.model}</span>
+                        <span>{formatTokens(entry.promptTokens)} / {formatTokens(entry.completionTokens)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </GlassPanel>
+  );
+};
+
+export default UsagePanel;
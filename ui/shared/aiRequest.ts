@@ -0,0 +1,61 @@
+import { usePrismStore } from '../../store/prismStore';
+import { reconcileSummaries } from '../../services/aiService';
+import { isAbortError } from '../../services/aiErrors';
+import { AppStatus, GraphData } from '../../types/prism';
+
+// -----------------------------------------------------------------------------
+// AI REQUEST LIFECYCLE
+// Begin, end and error handling shared by every panel that calls a provider.
+// -----------------------------------------------------------------------------
+
+interface RequestHandlers {
+  onError?: (error: unknown) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Runs one AI request. It supersedes any running request and, only while
+ * it is still the active one, ends it: IDLE on success, ERROR for a few
+ * seconds on failure. Resolves to undefined when it failed or was cancelled.
+ */
+export const runRequest = async <T>(task: (signal: AbortSignal) => Promise<T>, handlers: RequestHandlers = {}): Promise<T | undefined> => {
+  const { beginRequest, endRequest, setPendingGraph } = usePrismStore.getState();
+  const signal = beginRequest();
+  try {
+    const result = await task(signal);
+    endRequest(signal);
+    return result;
+  } catch (e) {
+    if (isAbortError(e)) {
+      endRequest(signal); // Usually a no-op: cancelRequest() already restored IDLE
+      handlers.onCancel?.();
+      return undefined;
+    }
+    console.error(e);
+    setPendingGraph(null);
+    endRequest(signal, AppStatus.ERROR);
+    handlers.onError?.(e);
+    return undefined;
+  }
+};
+
+/**
+ * Commits fresh research to the workspace and persists it, then has merged
+ * summaries rewritten while the request can still be cancelled. A cancel
+ * during the rewrite keeps the integrated graph; finished rewrites are saved.
+ */
+export const integrateGraph = async (data: GraphData, signal: AbortSignal, onStage: (stage: string) => void) => {
+  const { addGraphData, setPendingGraph, saveToDb } = usePrismStore.getState();
+  // Commit before clearing the staging area so streamed nodes never blink out
+  const conflicts = addGraphData(data.nodes, data.links);
+  setPendingGraph(null);
+  await saveToDb();
+  if (conflicts.length === 0) return;
+
+  onStage(`Reconciling ${conflicts.length} merged summar${conflicts.length === 1 ? 'y' : 'ies'}...`);
+  try {
+    await reconcileSummaries(conflicts, { signal });
+  } finally {
+    saveToDb();
+  }
+};
@@ -1,6 +1,6 @@
 
-import { ResearchNode, SimulationNode, OptimizedConnection } from '../types/prism';
-import { GROUP_COLORS, GROUP_SHAPES, NODE_REL_SIZE, LINK_COLOR, GRAPH_BACKGROUND } from '../constants';
+import { SimulationNode, SimulationLink, OntologyGroup } from '../types/prism';
+import { GROUP_COLORS, GROUP_SHAPES, NODE_REL_SIZE, LINK_COLOR, LINK_ARROW_SIZE, GRAPH_BACKGROUND, PENDING_NODE_ALPHA, HIGHLIGHT_COLOR, MARKED_COLOR, LOW_CONFIDENCE_ALPHA } from '../constants';
 
 // Pure helper to draw shapes based on category
 export const drawShape = (ctx: CanvasRenderingContext2D, x: number, y: number, r: number, shape: string) => {
@@ -31,17 +31,28 @@ export const paintNode = (
   ctx: CanvasRenderingContext2D,
   globalScale: number,
   selectedId: string | null | undefined,
-  hoveredId: string | null | undefined
+  hoveredId: string | null | undefined,
+  isPending: boolean = false, // Streamed in, not yet merged into the graph
+  isHighlighted: boolean = false, // Cited by a grounded answer
+  isLowConfidence: boolean = false, // Unsure or disputed: drawn faded with a dashed outline
+  style?: Pick<OntologyGroup, 'color' | 'shape'>, // From the active ontology; built-in palette otherwise
+  isMarked: boolean = false // Part of the multi-selection for merge & split
 ) => {
   const { groupLabel, metrics, label, x, y } = node;
   // Safety check for D3 initialization
   if (x === undefined || y === undefined) return;
 
+  const isFaded = isPending || isLowConfidence;
+  if (isFaded) {
+    ctx.save();
+    ctx.globalAlpha = isPending ? PENDING_NODE_ALPHA : LOW_CONFIDENCE_ALPHA;
+  }
+
   const isSelected = selectedId === node.id;
   const isHovered = hoveredId === node.id;
 
-  const shape = GROUP_SHAPES[groupLabel] || 'circle';
-  const color = GROUP_COLORS[groupLabel] || GROUP_COLORS.default;
+  const shape = style?.shape || GROUP_SHAPES[groupLabel] || 'circle';
+  const color = style?.color || GROUP_COLORS[groupLabel] || GROUP_COLORS.default;
   const significance = metrics?.significance || 1;
   const radius = Math.sqrt(significance) * NODE_REL_SIZE;
 
@@ -53,6 +64,24 @@ export const paintNode = (
     ctx.fill();
   }
 
+  // 1b. Citation Ring
+  if (isHighlighted) {
+    ctx.lineWidth = 3 / globalScale;
+    ctx.strokeStyle = HIGHLIGHT_COLOR;
+    drawShape(ctx, x, y, radius + 4, shape);
+    ctx.stroke();
+  }
+
+  // 1c. Multi-Selection Ring
+  if (isMarked) {
+    ctx.lineWidth = 2 / globalScale;
+    ctx.strokeStyle = MARKED_COLOR;
+    ctx.setLineDash([4 / globalScale, 2 / globalScale]);
+    drawShape(ctx, x, y, radius + 7, shape);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
   // 2. Shadow
   ctx.fillStyle = 'rgba(0,0,0,0.1)';
   drawShape(ctx, x, y, radius + 1.5, shape);
@@ -63,14 +92,16 @@ export const paintNode = (
   drawShape(ctx, x, y, radius, shape);
   ctx.fill();
 
-  // 4. Stroke
+  // 4. Stroke (Dashed when confidence is low)
   ctx.lineWidth = 1.5 / globalScale;
-  ctx.strokeStyle = '#fff';
+  ctx.strokeStyle = isLowConfidence ? '#0f172a' : '#fff';
+  if (isLowConfidence) ctx.setLineDash([3 / globalScale, 2 / globalScale]);
   ctx.stroke();
+  if (isLowConfidence) ctx.setLineDash([]);
 
   // 5. Label (Conditional LOD)
   // JetBrains Mono for clean technical legibility
-  const showLabel = isSelected || isHovered || globalScale > 1.0 || significance > 8;
+  const showLabel = isSelected || isHovered || isHighlighted || isMarked || globalScale > 1.0 || significance > 8;
 
   if (showLabel) {
     const fontSize = 12 / globalScale;
@@ -87,13 +118,26 @@ export const paintNode = (
     ctx.fillStyle = '#0f172a';
     ctx.fillText(label, x, y);
   }
+
+  if (isFaded) ctx.restore();
+};
+
+// Control point of a bent link, placed the way ForceGraph places it for hit-testing
+const controlPoint = (sx: number, sy: number, tx: number, ty: number, curvature: number) => {
+  const length = Math.hypot(tx - sx, ty - sy);
+  const angle = Math.atan2(ty - sy, tx - sx);
+  return {
+    x: (sx + tx) / 2 + length * curvature * Math.cos(angle - Math.PI / 2),
+    y: (sy + ty) / 2 + length * curvature * Math.sin(angle - Math.PI / 2)
+  };
 };
 
 // Extracted Link Painting Logic
 export const paintLink = (
-  link: OptimizedConnection,
+  link: SimulationLink,
   ctx: CanvasRenderingContext2D,
-  globalScale: number
+  globalScale: number,
+  isLowConfidence: boolean = false // Unsure or disputed: drawn dashed
 ) => {
   // Safe casting: ForceGraph guarantees these are objects after initialization
   const source = link.source as SimulationNode;
@@ -102,14 +146,21 @@ export const paintLink = (
   if (source.x === undefined || source.y === undefined || target.x === undefined || target.y === undefined) return;
 
   const width = (link.weight * 1.5) / globalScale;
+  const curvature = link.curvature || 0;
+  const cp = curvature ? controlPoint(source.x, source.y, target.x, target.y, curvature) : null;
+
+  const tracePath = () => {
+    ctx.moveTo(source.x, source.y);
+    if (cp) ctx.quadraticCurveTo(cp.x, cp.y, target.x, target.y);
+    else ctx.lineTo(target.x, target.y);
+  };
 
   // Pass 1: Eraser (Gap Effect)
   ctx.beginPath();
   ctx.strokeStyle = GRAPH_BACKGROUND;
   ctx.lineWidth = width + (5 / globalScale);
   ctx.lineCap = 'butt';
-  ctx.moveTo(source.x, source.y);
-  ctx.lineTo(target.x, target.y);
+  tracePath();
   ctx.stroke();
 
   // Pass 2: Ink
@@ -117,7 +168,24 @@ export const paintLink = (
   ctx.strokeStyle = LINK_COLOR;
   ctx.lineWidth = width;
   ctx.lineCap = 'round';
-  ctx.moveTo(source.x, source.y);
-  ctx.lineTo(target.x, target.y);
+  if (isLowConfidence) ctx.setLineDash([4 / globalScale, 3 / globalScale]);
+  tracePath();
   ctx.stroke();
+  if (isLowConfidence) ctx.setLineDash([]);
+
+  // Pass 3: Arrowhead at the target's edge (Direction)
+  const from = cp || source;
+  const angle = Math.atan2(target.y - from.y, target.x - from.x);
+  const reach = Math.sqrt(target.metrics?.significance || 1) * NODE_REL_SIZE + 1.5; // Core + shadow
+  const tipX = target.x - Math.cos(angle) * reach;
+  const tipY = target.y - Math.sin(angle) * reach;
+  const size = LINK_ARROW_SIZE / globalScale + width;
+
+  ctx.beginPath();
+  ctx.fillStyle = LINK_COLOR;
+  ctx.moveTo(tipX, tipY);
+  ctx.lineTo(tipX - size * Math.cos(angle - Math.PI / 7), tipY - size * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(tipX - size * Math.cos(angle + Math.PI / 7), tipY - size * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
 };
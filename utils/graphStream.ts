@@ -0,0 +1,112 @@
+import { GraphData, ResearchNode, OptimizedConnection } from '../types/prism';
+
+// --- INCREMENTAL PARSING ---
+
+/**
+ * Pulls complete node and link objects out of a JSON payload that is still
+ * arriving, so the graph can grow while a provider streams its answer.
+ * Expects the `{ nodes: [...], links: [...] }` shape; anything outside those
+ * two arrays (including markdown fences) is skipped.
+ */
+export class GraphStreamParser {
+  private text = '';
+  private pos = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastKey = ''; // Last string seen at the top level
+  private arrayKey = ''; // Top-level array currently being read
+  private objectStart = -1;
+  private nodes: ResearchNode[] = [];
+  private links: OptimizedConnection[] = [];
+
+  /**
+   * Feeds the response text accumulated so far. Text that does not extend the
+   * previous feed (a retried attempt) restarts the parse.
+   * Returns true when at least one new entity was completed.
+   */
+  update(text: string): boolean {
+    if (!text.startsWith(this.text)) this.reset();
+    this.text = text;
+
+    const before = this.nodes.length + this.links.length;
+    for (; this.pos < text.length; this.pos++) this.consume(text[this.pos]);
+    return this.nodes.length + this.links.length > before;
+  }
+
+  /** Entities completed so far. */
+  get snapshot(): GraphData {
+    return { nodes: [...this.nodes], links: [...this.links] };
+  }
+
+  reset() {
+    this.text = '';
+    this.pos = 0;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.stringStart = -1;
+    this.lastKey = '';
+    this.arrayKey = '';
+    this.objectStart = -1;
+    this.nodes = [];
+    this.links = [];
+  }
+
+  private consume(ch: string) {
+    if (this.inString) {
+      if (this.escaped) {
+        this.escaped = false;
+      } else if (ch === '\\') {
+        this.escaped = true;
+      } else if (ch === '"') {
+        this.inString = false;
+        if (this.depth === 1) this.lastKey = this.text.slice(this.stringStart + 1, this.pos);
+      }
+      return;
+    }
+
+    switch (ch) {
+      case '"':
+        this.inString = true;
+        this.stringStart = this.pos;
+        break;
+      case '[':
+        if (this.depth === 1) this.arrayKey = this.lastKey;
+        this.depth++;
+        break;
+      case '{':
+        if (this.depth === 1) this.arrayKey = ''; // Nested object, not an entity list
+        if (this.depth === 2 && this.arrayKey) this.objectStart = this.pos;
+        this.depth++;
+        break;
+      case '}':
+        this.depth--;
+        if (this.depth === 2 && this.objectStart >= 0) {
+          this.emit(this.text.slice(this.objectStart, this.pos + 1));
+          this.objectStart = -1;
+        }
+        break;
+      case ']':
+        this.depth--;
+        if (this.depth === 1) this.arrayKey = '';
+        break;
+    }
+  }
+
+  private emit(json: string) {
+    let entity: any;
+    try {
+      entity = JSON.parse(json);
+    } catch {
+      return; // The final parse of the full payload decides what is invalid
+    }
+
+    if (this.arrayKey === 'nodes' && typeof entity?.id === 'string' && typeof entity?.label === 'string') {
+      this.nodes.push(entity);
+    } else if (this.arrayKey === 'links' && typeof entity?.source === 'string' && typeof entity?.target === 'string') {
+      this.links.push(entity);
+    }
+  }
+}
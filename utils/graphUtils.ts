@@ -1,5 +1,6 @@
 
-import { ResearchNode, OptimizedConnection } from '../types/prism';
+import { ResearchNode, ResearchMetadata, OptimizedConnection, GraphData, EvidenceSource, Verification, MergeStrategy, NodeMergePolicy, SummaryConflict, MergeSuggestion, SimilarityBand, DistinctPair } from '../types/prism';
+import { LOW_CONFIDENCE_THRESHOLD } from '../constants';
 
 // --- SIMILARITY ALGORITHMS ---
 
@@ -64,93 +65,456 @@ export const isSameEntity = (nodeA: ResearchNode, nodeB: ResearchNode): boolean
   return false;
 };
 
+// --- DUPLICATE REVIEW ---
+
+export const DEFAULT_DUPLICATE_BAND: SimilarityBand = { min: 0.7, max: 0.95 };
+export const MIN_DUPLICATE_SIMILARITY = 0.5; // Below this, every new node would be queued for review
+
+/** Active when consolidating into the workspace; absent, matching is as in isSameEntity. */
+export interface DuplicateReview {
+  band: SimilarityBand;
+  distinct: Set<string>; // distinctKey of every pair marked distinct
+}
+
+const names = (node: ResearchNode) => [node.label, ...(node.aliases || [])];
+
+/** Identity key of a label pair, independent of order and case. */
+export const distinctKey = (labelA: string, labelB: string) =>
+  [labelA, labelB].map(l => l.trim().toLowerCase()).sort().join('|');
+
+export const distinctPair = (labelA: string, labelB: string): DistinctPair =>
+  ({ key: distinctKey(labelA, labelB), labels: [labelA, labelB], createdAt: Date.now() });
+
+/**
+ * Pairs that follow a node renamed from `from` to `to`. The old pairs stay,
+ * so the decision also survives undoing the rename.
+ */
+export const renameDistinctPairs = (pairs: DistinctPair[], from: string, to: string): DistinctPair[] => {
+  const renamed = from.trim().toLowerCase();
+  const known = new Set(pairs.map(p => p.key));
+  return pairs.flatMap(pair => {
+    const [a, b] = pair.labels.map(l => l.trim().toLowerCase() === renamed ? to : l);
+    const next = distinctPair(a, b);
+    if (known.has(next.key)) return [];
+    known.add(next.key);
+    return [next];
+  });
+};
+
+/**
+ * How alike two nodes' names are: 1.0 when a label or alias matches
+ * exactly (case-insensitive), otherwise the best fuzzy score across them.
+ */
+export const entitySimilarity = (nodeA: ResearchNode, nodeB: ResearchNode): number => {
+  let best = 0;
+  for (const a of names(nodeA)) {
+    for (const b of names(nodeB)) {
+      if (a.toLowerCase() === b.toLowerCase()) return 1.0;
+      best = Math.max(best, calculateStringSimilarity(a, b));
+    }
+  }
+  return best;
+};
+
+/**
+ * Finds what an incoming node should merge into. Under review, fuzzy
+ * matches only merge from `band.max`; the best one inside the band is
+ * returned as a suggestion, and pairs marked distinct never match by name.
+ */
+const findMatch = (
+  candidates: ResearchNode[],
+  node: ResearchNode,
+  review?: DuplicateReview
+): { mergeIdx: number; suggestion?: { idx: number; similarity: number } } => {
+  if (!review) return { mergeIdx: candidates.findIndex(existing => isSameEntity(existing, node)) };
+
+  let suggestion: { idx: number; similarity: number } | undefined;
+  for (let idx = 0; idx < candidates.length; idx++) {
+    const candidate = candidates[idx];
+    if (candidate.id === node.id) return { mergeIdx: idx };
+    if (review.distinct.has(distinctKey(candidate.label, node.label))) continue;
+
+    const similarity = entitySimilarity(candidate, node);
+    if (similarity >= review.band.max) return { mergeIdx: idx };
+    if (similarity >= review.band.min && (!suggestion || similarity > suggestion.similarity)) suggestion = { idx, similarity };
+  }
+  return { mergeIdx: -1, suggestion };
+};
+
+// --- NEIGHBOURHOOD ---
+
+const endpointId = (end: string | ResearchNode) => typeof end === 'object' ? end.id : end;
+
+/** Stable identifier for a link: `source|RELATION|target`. */
+export const linkKey = (link: OptimizedConnection) =>
+  `${endpointId(link.source)}|${link.relation}|${endpointId(link.target)}`;
+
+// --- PARALLEL EDGES ---
+
+const CURVE_STEP = 0.25; // Curvature between neighbouring parallel edges
+
+/**
+ * Curvature for each link, so that several edges between the same two
+ * nodes, in either direction, fan out instead of overlapping. A lone
+ * edge stays straight.
+ */
+export const parallelCurvatures = (links: OptimizedConnection[]): number[] => {
+  const pairs = new Map<string, number[]>();
+  links.forEach((link, idx) => {
+    const source = endpointId(link.source);
+    const target = endpointId(link.target);
+    const pair = source < target ? `${source}|${target}` : `${target}|${source}`;
+    if (!pairs.has(pair)) pairs.set(pair, []);
+    pairs.get(pair)!.push(idx);
+  });
+
+  const curvatures = links.map(() => 0);
+  pairs.forEach(indices => {
+    if (indices.length < 2) return;
+    indices.forEach((linkIdx, i) => {
+      const offset = (i - (indices.length - 1) / 2) * CURVE_STEP;
+      // Curvature bends relative to the direction of travel: reversed edges flip to stay on their side
+      const reversed = endpointId(links[linkIdx].source) > endpointId(links[linkIdx].target);
+      curvatures[linkIdx] = reversed ? -offset : offset;
+    });
+  });
+  return curvatures;
+};
+
+// --- EVIDENCE ---
+
+/** Only web links are ever rendered as clickable; `javascript:` and friends are not. */
+export const isWebUrl = (url?: string): url is string => !!url && /^https?:\/\//i.test(url.trim());
+
+// --- CONFIDENCE ---
+
+/**
+ * Low confidence: the generating model was unsure, or a verifier disputed
+ * the claim. Entities without a score are given the benefit of the doubt.
+ */
+export const isLowConfidence = (item: { confidence?: number; verification?: Verification }): boolean =>
+  item.verification?.verdict === 'DISPUTED' ||
+  (item.confidence !== undefined && item.confidence < LOW_CONFIDENCE_THRESHOLD);
+
+/**
+ * Lists the nodes directly linked to `nodeId`, in either direction,
+ * together with the relation that connects them.
+ */
+export const getNeighbours = (
+  nodeId: string,
+  nodes: ResearchNode[],
+  links: OptimizedConnection[]
+): { node: ResearchNode; relation: string }[] => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const neighbours = new Map<string, { node: ResearchNode; relation: string }>();
+
+  links.forEach(link => {
+    const source = endpointId(link.source);
+    const target = endpointId(link.target);
+    const otherId = source === nodeId ? target : target === nodeId ? source : null;
+    const other = otherId && otherId !== nodeId ? byId.get(otherId) : undefined;
+    if (other && !neighbours.has(other.id)) neighbours.set(other.id, { node: other, relation: link.relation });
+  });
+
+  return Array.from(neighbours.values());
+};
+
+// --- SUBGRAPH RETRIEVAL ---
+
+const SUBGRAPH_LIMIT = 40; // Nodes sent as context; keeps prompts bounded
+
+const tokenize = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 2);
+
+/**
+ * Picks the part of the graph relevant to a question: nodes whose label,
+ * aliases, tags or summary share its terms, then their direct neighbours,
+ * up to `limit` nodes. Graphs within the limit are returned whole.
+ */
+export const selectSubgraph = (
+  query: string,
+  nodes: ResearchNode[],
+  links: OptimizedConnection[],
+  limit: number = SUBGRAPH_LIMIT
+): GraphData => {
+  let selected = nodes;
+
+  if (nodes.length > limit) {
+    const terms = new Set(tokenize(query));
+    const score = (node: ResearchNode) => {
+      const strong = tokenize([node.id, node.label, ...(node.aliases || []), ...(node.tags || [])].join(' '));
+      const weak = tokenize(node.summary || '');
+      return strong.filter(t => terms.has(t)).length * 3 + weak.filter(t => terms.has(t)).length;
+    };
+    const bySignificance = (a: ResearchNode, b: ResearchNode) => b.metrics.significance - a.metrics.significance;
+
+    const seeds = nodes
+      .map(node => ({ node, score: score(node) }))
+      .filter(s => s.score > 0)
+      .sort((a, b) => b.score - a.score || bySignificance(a.node, b.node))
+      .slice(0, limit)
+      .map(s => s.node);
+
+    const ids = new Set(seeds.map(n => n.id));
+    for (const seed of seeds) {
+      for (const { node } of getNeighbours(seed.id, nodes, links)) {
+        if (ids.size >= limit) break;
+        ids.add(node.id);
+      }
+    }
+
+    // Nothing matched: the most significant nodes are the best overview
+    selected = ids.size > 0
+      ? nodes.filter(n => ids.has(n.id))
+      : [...nodes].sort(bySignificance).slice(0, limit);
+  }
+
+  const ids = new Set(selected.map(n => n.id));
+  return {
+    nodes: selected,
+    links: links.filter(l => ids.has(endpointId(l.source)) && ids.has(endpointId(l.target)))
+  };
+};
+
 // --- CONSOLIDATION ENGINE ---
 
+/**
+ * Union of two evidence lists. The same URL (or, without one, the same
+ * title) counts once; the first occurrence wins.
+ */
+export const mergeSources = (a?: EvidenceSource[], b?: EvidenceSource[]): EvidenceSource[] | undefined => {
+  const merged = new Map<string, EvidenceSource>();
+  [...(a || []), ...(b || [])].forEach(source => {
+    const key = (source.url || source.title).toLowerCase();
+    if (!merged.has(key)) merged.set(key, source);
+  });
+  return merged.size > 0 ? Array.from(merged.values()) : undefined;
+};
+
+export const DEFAULT_MERGE_POLICY: NodeMergePolicy = { summary: 'keep', type: 'keep' };
+
+/** Every generation that contributed to a node, oldest first. */
+export const getProvenance = (node: ResearchNode): ResearchMetadata[] =>
+  node.provenance || (node.researchMetadata ? [node.researchMetadata] : []);
+
+// The same request from the same provider counts once
+const mergeProvenance = (a: ResearchMetadata[], b: ResearchMetadata[]): ResearchMetadata[] => {
+  const merged = new Map<string, ResearchMetadata>();
+  [...a, ...b].forEach(entry => {
+    const key = `${entry.requestId || entry.timestamp}|${entry.provider}`;
+    if (!merged.has(key)) merged.set(key, entry);
+  });
+  return Array.from(merged.values());
+};
+
+// Whether two texts say the same thing, or one already contains the other
+const isCovered = (text: string, by: string) => by.toLowerCase().includes(text.trim().toLowerCase());
+
+const mergeText = (current: string, incoming: string, strategy: MergeStrategy): string => {
+  if (!incoming?.trim()) return current;
+  if (!current?.trim()) return incoming;
+  switch (strategy) {
+    case 'keep': return current;
+    case 'replace': return incoming;
+    default: return isCovered(incoming, current) ? current : isCovered(current, incoming) ? incoming : `${current}\n\n${incoming}`;
+  }
+};
+
+/**
+ * A rediscovered node folded into the existing one, as a new object.
+ * Lists are unioned, significance keeps its maximum and conflicting
+ * fields follow the policy. The incoming label is kept as an alias.
+ */
+export const mergeNodes = (existing: ResearchNode, incoming: ResearchNode, policy: NodeMergePolicy = DEFAULT_MERGE_POLICY): ResearchNode => {
+  const aliases = new Set([...(existing.aliases || []), ...(incoming.aliases || [])]);
+  if (incoming.label.toLowerCase() !== existing.label.toLowerCase()) aliases.add(incoming.label);
+
+  return {
+    ...existing,
+    summary: mergeText(existing.summary, incoming.summary, policy.summary),
+    ...(policy.type === 'replace' && incoming.type ? { type: incoming.type, groupLabel: incoming.groupLabel } : {}),
+    tags: Array.from(new Set([...(existing.tags || []), ...(incoming.tags || [])])),
+    aliases: Array.from(aliases),
+    sources: mergeSources(existing.sources, incoming.sources),
+    metrics: {
+      ...existing.metrics,
+      // Boost significance if rediscovered
+      significance: Math.min(10, Math.max(existing.metrics.significance, incoming.metrics.significance))
+    },
+    provenance: mergeProvenance(getProvenance(existing), getProvenance(incoming))
+  };
+};
+
+/**
+ * Re-points links through `resolve` and appends them to `existing`. Links
+ * that end up as the same edge merge like rediscovered ones: the strongest
+ * reading wins, evidence accumulates. Links with an endpoint that resolves
+ * to nothing, or that would loop on one node, are dropped.
+ */
+export const rewireLinks = (
+  links: OptimizedConnection[],
+  resolve: (id: string) => string | undefined,
+  existing: OptimizedConnection[] = []
+): OptimizedConnection[] => {
+  const result = [...existing];
+  const edgeIndex = new Map<string, number>(existing.map((l, idx) => [linkKey(l), idx]));
+
+  links.forEach(link => {
+    const source = resolve(endpointId(link.source));
+    const target = resolve(endpointId(link.target));
+    if (!source || !target || source === target) return;
+
+    const rewired: OptimizedConnection = { ...link, source, target };
+    const duplicateIdx = edgeIndex.get(linkKey(rewired));
+    if (duplicateIdx === undefined) {
+      edgeIndex.set(linkKey(rewired), result.length);
+      result.push(rewired);
+    } else {
+      const duplicate = result[duplicateIdx];
+      result[duplicateIdx] = {
+        ...duplicate,
+        weight: Math.max(duplicate.weight, link.weight),
+        sources: mergeSources(duplicate.sources, link.sources)
+      };
+    }
+  });
+  return result;
+};
+
 interface ConsolidationResult {
   nodes: ResearchNode[];
   links: OptimizedConnection[];
   mergedCount: number;
+  idMap: Map<string, string>; // Incoming node ID -> ID it resolved to in the result
+  conflicts: SummaryConflict[]; // 'summarize' policy: merged summaries awaiting an AI rewrite
+  suggestions: MergeSuggestion[]; // Borderline duplicates added as separate nodes, for review
 }
 
 /**
  * Merges new graph data into the existing graph, deduplicating nodes
- * and re-wiring links to preserve connections.
+ * and re-wiring links to preserve connections. Neither input is
+ * mutated: merged nodes and links are new objects. With `review`,
+ * borderline matches are kept apart and returned as suggestions.
  */
 export const consolidateGraphData = (
   existingNodes: ResearchNode[],
   existingLinks: OptimizedConnection[],
   newNodes: ResearchNode[],
-  newLinks: OptimizedConnection[]
+  newLinks: OptimizedConnection[],
+  policy: NodeMergePolicy = DEFAULT_MERGE_POLICY,
+  review?: DuplicateReview
 ): ConsolidationResult => {
   
   const finalNodes = [...existingNodes];
   const nodeMap = new Map<string, string>(); // Maps New_ID -> Existing_ID (if merged)
+  const conflicts = new Map<string, SummaryConflict>();
+  const suggestions: MergeSuggestion[] = [];
   let mergedCount = 0;
 
   // 1. Process New Nodes
   newNodes.forEach(newNode => {
     // Check against ALL existing nodes for duplicates
-    const existingMatch = finalNodes.find(existing => isSameEntity(existing, newNode));
+    const { mergeIdx: matchIdx, suggestion } = findMatch(finalNodes, newNode, review);
 
-    if (existingMatch) {
+    if (matchIdx >= 0) {
       // DUPLICATE FOUND: Merge Logic
+      const existingMatch = finalNodes[matchIdx];
       nodeMap.set(newNode.id, existingMatch.id);
       mergedCount++;
+      finalNodes[matchIdx] = mergeNodes(existingMatch, newNode, policy);
 
-      // Merge Tags
-      const combinedTags = new Set([...(existingMatch.tags || []), ...(newNode.tags || [])]);
-      existingMatch.tags = Array.from(combinedTags);
-
-      // Merge Aliases
-      const combinedAliases = new Set([...(existingMatch.aliases || []), ...(newNode.aliases || [])]);
-      existingMatch.aliases = Array.from(combinedAliases);
-
-      // Boost significance if rediscovered
-      existingMatch.metrics.significance = Math.min(10, Math.max(existingMatch.metrics.significance, newNode.metrics.significance));
+      // Summaries that really differ are queued for a rewrite
+      if (policy.summary === 'summarize' && finalNodes[matchIdx].summary !== existingMatch.summary && finalNodes[matchIdx].summary !== newNode.summary) {
+        const conflict = conflicts.get(existingMatch.id) || { nodeId: existingMatch.id, label: existingMatch.label, summaries: [existingMatch.summary] };
+        conflicts.set(existingMatch.id, { ...conflict, summaries: [...conflict.summaries, newNode.summary] });
+      }
     } else {
       // UNIQUE: Add to list
       finalNodes.push(newNode);
       nodeMap.set(newNode.id, newNode.id); // Maps to itself
-    }
-  });
 
-  // 2. Process & Re-wire Links
-  const linkSignature = new Set(existingLinks.map(l => {
-    const s = typeof l.source === 'object' ? (l.source as ResearchNode).id : l.source;
-    const t = typeof l.target === 'object' ? (l.target as ResearchNode).id : l.target;
-    return `${s}|${t}`;
-  }));
-
-  const validNewLinks: OptimizedConnection[] = [];
-
-  newLinks.forEach(link => {
-    const rawSource = typeof link.source === 'object' ? (link.source as ResearchNode).id : link.source as string;
-    const rawTarget = typeof link.target === 'object' ? (link.target as ResearchNode).id : link.target as string;
-
-    // RE-WIRE: Point source/target to the resolved ID (either itself or the merged parent)
-    const resolvedSource = nodeMap.get(rawSource);
-    const resolvedTarget = nodeMap.get(rawTarget);
-
-    // Only add link if both endpoints exist in the final graph
-    if (resolvedSource && resolvedTarget && resolvedSource !== resolvedTarget) {
-      const signatureA = `${resolvedSource}|${resolvedTarget}`;
-      const signatureB = `${resolvedTarget}|${resolvedSource}`; // Undirected check
-
-      if (!linkSignature.has(signatureA) && !linkSignature.has(signatureB)) {
-        validNewLinks.push({
-          source: resolvedSource,
-          target: resolvedTarget,
-          relation: link.relation,
-          weight: link.weight
-        });
-        linkSignature.add(signatureA);
+      if (suggestion) {
+        const keepId = finalNodes[suggestion.idx].id;
+        suggestions.push({ id: `${keepId}|${newNode.id}`, keepId, mergeId: newNode.id, similarity: suggestion.similarity, createdAt: Date.now() });
       }
     }
   });
 
+  // 2. Process & Re-wire Links
+  // RE-WIRE: Point source/target to the resolved ID (either itself or the merged parent).
+  // Edges are directed and keyed per relation: A -FUNDED-> B and A -MET_WITH-> B
+  // are two edges, and so are A -FUNDED-> B and B -FUNDED-> A
+  const finalLinks = rewireLinks(newLinks, id => nodeMap.get(id), existingLinks);
+
   return {
     nodes: finalNodes,
-    links: [...existingLinks, ...validNewLinks],
-    mergedCount
+    links: finalLinks,
+    mergedCount,
+    idMap: nodeMap,
+    conflicts: Array.from(conflicts.values()),
+    suggestions
+  };
+};
+
+/**
+ * Folds one node into another, as a user decision: fields merge by
+ * policy and every link is re-pointed. Links that would become self-loops
+ * are dropped; edges that now coincide merge like rediscovered ones.
+ */
+export const mergeNodeInto = (
+  nodes: ResearchNode[],
+  links: OptimizedConnection[],
+  keepId: string,
+  mergeId: string,
+  policy: NodeMergePolicy = DEFAULT_MERGE_POLICY
+): GraphData => {
+  const keep = nodes.find(n => n.id === keepId);
+  const merged = nodes.find(n => n.id === mergeId);
+  if (!keep || !merged || keepId === mergeId) return { nodes, links };
+
+  return {
+    nodes: nodes.filter(n => n.id !== mergeId).map(n => n.id === keepId ? mergeNodes(keep, merged, policy) : n),
+    links: rewireLinks(links, id => id === mergeId ? keepId : id)
+  };
+};
+
+// --- MANUAL EDITING ---
+
+export const MANUAL_PROVIDER = 'Manual'; // Provenance of changes made by hand
+
+/** A provenance entry for a change made by hand; `change` says what was done. */
+export const manualProvenance = (change: string): ResearchMetadata => ({ provider: MANUAL_PROVIDER, model: '', change, timestamp: Date.now() });
+
+/** What a provenance entry credits: the model, or the change for manual entries (older ones kept it in `model`). */
+export const provenanceDetail = (entry: ResearchMetadata) => entry.change || entry.model;
+
+/** Manual entries in a node's or link's provenance, oldest first. */
+export const manualEdits = (provenance: ResearchMetadata[] = []) => provenance.filter(entry => entry.provider === MANUAL_PROVIDER);
+
+/** A snake_case ID for a new label that no node uses yet. */
+export const uniqueNodeId = (label: string, nodes: ResearchNode[]): string => {
+  const base = label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'node';
+  const taken = new Set(nodes.map(n => n.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}_${n}`;
+  return id;
+};
+
+/**
+ * Divides a node in two: `part` is added beside it, and the links listed
+ * in `moved` (by linkKey) are re-pointed from the original to `part`.
+ */
+export const splitNode = (
+  nodes: ResearchNode[],
+  links: OptimizedConnection[],
+  nodeId: string,
+  part: ResearchNode,
+  moved: Set<string>
+): GraphData => {
+  const repoint = (end: string | ResearchNode) => endpointId(end) === nodeId ? part.id : endpointId(end);
+  return {
+    nodes: [...nodes, part],
+    links: links.map(link => moved.has(linkKey(link))
+      ? { ...link, source: repoint(link.source), target: repoint(link.target) }
+      : link)
   };
 };
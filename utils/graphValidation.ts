@@ -0,0 +1,174 @@
+import { Schema, Type } from '@google/genai';
+import { GraphData, ValidationIssue } from '../types/prism';
+
+// --- SCHEMA VALIDATION ---
+// One walker for every provider: the schema Gemini enforces natively is the
+// same one all other responses are checked, coerced and repaired against.
+
+// `reason` explains an unusable value and travels up to whoever drops it
+type Checked = { ok: true; value: unknown; reason?: undefined } | { ok: false; value?: undefined; reason: string };
+
+const invalid = (reason: string): Checked => ({ ok: false, reason });
+
+const describe = (value: unknown) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Fills a missing value from the schema: an explicit `default`, or an
+ * object whose required properties can all be defaulted.
+ */
+const repairMissing = (schema: Schema, path: string, issues: ValidationIssue[]): Checked => {
+  if (schema.default !== undefined) {
+    issues.push({ path, action: 'repaired', message: `defaulted to ${JSON.stringify(schema.default)}` });
+    return { ok: true, value: structuredClone(schema.default) };
+  }
+  if (schema.type === Type.OBJECT) {
+    const result = checkValue({}, schema, path, []);
+    if (result.ok) {
+      issues.push({ path, action: 'repaired', message: 'rebuilt from defaults' });
+      return result;
+    }
+  }
+  return invalid(`${path} is missing`);
+};
+
+const checkNumber = (value: unknown, schema: Schema, path: string, issues: ValidationIssue[]): Checked => {
+  let num = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  if (!Number.isFinite(num)) return invalid(`${path} is not a number (${JSON.stringify(value)})`);
+  if (typeof value !== 'number') issues.push({ path, action: 'coerced', message: `${describe(value)} ${JSON.stringify(value)} read as number` });
+
+  if (schema.type === Type.INTEGER) num = Math.round(num);
+  const clamped = Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, num));
+  if (clamped !== num) issues.push({ path, action: 'coerced', message: `${num} clamped to ${clamped}` });
+  return { ok: true, value: clamped };
+};
+
+const checkArray = (value: unknown, schema: Schema, path: string, issues: ValidationIssue[]): Checked => {
+  let list: unknown[];
+  if (Array.isArray(value)) {
+    list = value;
+  } else if (value !== null && typeof value !== 'object') {
+    issues.push({ path, action: 'coerced', message: `${describe(value)} wrapped in an array` });
+    list = [value];
+  } else {
+    return invalid(`${path} is not an array (${describe(value)})`);
+  }
+  if (!schema.items) return { ok: true, value: list };
+
+  // Bad items are dropped one by one; the array itself survives
+  const kept: unknown[] = [];
+  list.forEach((item, idx) => {
+    const result = checkValue(item, schema.items!, `${path}[${idx}]`, issues);
+    if (result.ok) kept.push(result.value);
+    else issues.push({ path: `${path}[${idx}]`, action: 'rejected', message: result.reason! });
+  });
+  return { ok: true, value: kept };
+};
+
+const checkObject = (value: unknown, schema: Schema, path: string, issues: ValidationIssue[]): Checked => {
+  if (!isPlainObject(value)) return invalid(`${path || 'response'} is not an object (${describe(value)})`);
+
+  const output: Record<string, unknown> = { ...value }; // Unknown keys pass through untouched
+  const required = new Set(schema.required || []);
+
+  for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+    const propPath = path ? `${path}.${key}` : key;
+    const current = value[key];
+
+    const result = current === undefined || current === null
+      ? (required.has(key) ? repairMissing(propSchema, propPath, issues) : { ok: true as const, value: undefined })
+      : checkValue(current, propSchema, propPath, issues);
+
+    if (result.ok) {
+      if (result.value === undefined) delete output[key];
+      else output[key] = result.value;
+      continue;
+    }
+
+    // An invalid value is as good as a missing one
+    const fallback = repairMissing(propSchema, propPath, issues);
+    if (fallback.ok) {
+      output[key] = fallback.value;
+    } else if (required.has(key)) {
+      return result; // Unrepairable required field: the whole object goes
+    } else {
+      issues.push({ path: propPath, action: 'coerced', message: `${result.reason!}; dropped` });
+      delete output[key];
+    }
+  }
+  return { ok: true, value: output };
+};
+
+// Enum members are matched case-insensitively: 'confirmed' reads as 'CONFIRMED'
+const checkEnum = (value: unknown, schema: Schema, path: string, issues: ValidationIssue[]): Checked => {
+  const match = typeof value === 'string'
+    ? schema.enum!.find(option => option.toLowerCase() === value.trim().toLowerCase())
+    : undefined;
+  if (match === undefined) return invalid(`${path} is not one of ${schema.enum!.join(', ')} (${JSON.stringify(value)})`);
+  if (match !== value) issues.push({ path, action: 'coerced', message: `${JSON.stringify(value)} read as ${match}` });
+  return { ok: true, value: match };
+};
+
+const checkValue = (value: unknown, schema: Schema, path: string, issues: ValidationIssue[]): Checked => {
+  switch (schema.type) {
+    case Type.OBJECT: return checkObject(value, schema, path, issues);
+    case Type.ARRAY: return checkArray(value, schema, path, issues);
+    case Type.NUMBER:
+    case Type.INTEGER: return checkNumber(value, schema, path, issues);
+    case Type.STRING:
+      if (schema.enum) return checkEnum(value, schema, path, issues);
+      if (typeof value === 'string') return { ok: true, value };
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        issues.push({ path, action: 'coerced', message: `${describe(value)} read as string` });
+        return { ok: true, value: String(value) };
+      }
+      return invalid(`${path} is not a string (${describe(value)})`);
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? { ok: true, value } : invalid(`${path} is not a boolean (${describe(value)})`);
+    default:
+      return { ok: true, value };
+  }
+};
+
+/**
+ * Validates a parsed response against a schema. Fixable problems are coerced
+ * or repaired in place; unfixable array items are dropped.
+ * Throws a SyntaxError when the payload cannot be salvaged at all.
+ */
+export const validateResponse = <T>(raw: unknown, schema: Schema): { data: T; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const result = checkValue(raw, schema, '', issues);
+  if (!result.ok) throw new SyntaxError(`Response does not match the schema: ${result.reason}`);
+  return { data: result.value as T, issues };
+};
+
+/** The graph-shaped case of validateResponse: bad nodes and links are dropped. */
+export const validateGraphData = (raw: unknown, schema: Schema) => validateResponse<GraphData>(raw, schema);
+
+/**
+ * Renders a schema as a compact JSON-like template for prompts, so providers
+ * without native structured output are asked for the same shape.
+ */
+export const describeSchema = (schema: Schema): string => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const required = new Set(schema.required || []);
+      const fields = Object.entries(schema.properties || {})
+        .map(([key, prop]) => `"${key}"${required.has(key) ? '' : '?'}: ${describeSchema(prop)}`);
+      return `{ ${fields.join(', ')} }`;
+    }
+    case Type.ARRAY:
+      return `[${schema.items ? describeSchema(schema.items) : ''}]`;
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const range = schema.minimum !== undefined && schema.maximum !== undefined ? ` ${schema.minimum}-${schema.maximum}` : '';
+      return `number${range}`;
+    }
+    case Type.STRING:
+      return schema.enum ? schema.enum.map(option => `"${option}"`).join(' | ') : 'string';
+    default:
+      return schema.type ? schema.type.toLowerCase() : 'any';
+  }
+};
@@ -0,0 +1,121 @@
+
+import { GraphData, NodeShape, Ontology, OntologyGroup, ValidationIssue } from '../types/prism';
+import { GROUP_COLORS, GROUP_SHAPES } from '../constants';
+import { calculateStringSimilarity } from './graphUtils';
+
+// --- DEFAULTS ---
+
+export const NODE_SHAPES: NodeShape[] = ['circle', 'square', 'diamond', 'triangle', 'pentagon', 'hexagon'];
+
+// The original six categories, before the workspace defines its own
+export const DEFAULT_ONTOLOGY: Ontology = {
+  name: 'Default',
+  groups: Object.keys(GROUP_COLORS)
+    .filter(label => label !== 'default')
+    .map(label => ({ label, types: [], color: GROUP_COLORS[label], shape: (GROUP_SHAPES[label] || 'circle') as NodeShape })),
+  relations: [],
+  fallbackGroup: 'Concept',
+  strict: false,
+  activatedAt: 0
+};
+
+const TERM_MATCH_THRESHOLD = 0.6; // Below this, a term is not a misspelling of a vocabulary entry
+
+// --- LOOKUPS ---
+
+/**
+ * Colour and shape for a group. Groups outside the active ontology (e.g.
+ * nodes from an earlier one) fall back to the built-in palette.
+ */
+export const getGroupStyle = (ontology: Ontology, groupLabel: string): Pick<OntologyGroup, 'color' | 'shape'> => {
+  const group = ontology.groups.find(g => g.label === groupLabel);
+  if (group) return { color: group.color, shape: group.shape };
+  return {
+    color: GROUP_COLORS[groupLabel] || GROUP_COLORS.default,
+    shape: (GROUP_SHAPES[groupLabel] || 'circle') as NodeShape
+  };
+};
+
+export const normalizeRelation = (relation: string) => relation.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Maps a term onto a vocabulary: exact (case-insensitive) first, then the
+ * closest fuzzy match. Undefined when nothing is close enough.
+ */
+export const resolveTerm = (value: string, vocabulary: string[], threshold: number = TERM_MATCH_THRESHOLD): string | undefined => {
+  const wanted = value.trim().toLowerCase();
+  const exact = vocabulary.find(term => term.toLowerCase() === wanted);
+  if (exact) return exact;
+
+  let best: { term: string; score: number } | undefined;
+  vocabulary.forEach(term => {
+    const score = calculateStringSimilarity(value, term);
+    if (score >= threshold && (!best || score > best.score)) best = { term, score };
+  });
+  return best?.term;
+};
+
+// --- PROMPTING ---
+
+/**
+ * The ontology as prompt text, for providers that only see the schema as a
+ * template. Also part of the response cache key.
+ */
+export const describeOntology = (ontology: Ontology): string => {
+  const groups = ontology.groups
+    .map(g => `- ${g.label}${g.types.length ? ` (types: ${g.types.join(', ')})` : ''}`)
+    .join('\n');
+  const relations = ontology.relations.length
+    ? `Use only these relations: ${ontology.relations.join(', ')}.`
+    : 'Relations are free-form UPPER_SNAKE_CASE.';
+  const policy = ontology.strict ? 'Anything outside this ontology is discarded.' : 'Anything outside this ontology is mapped to the closest term.';
+  return `Ontology "${ontology.name}". Use only these groupLabel values and, where listed, their node types:\n${groups}\n${relations}\n${policy}`;
+};
+
+// --- CONFORMANCE ---
+
+/**
+ * Maps every node group and node type onto the ontology. In strict mode,
+ * nodes that do not fit are dropped instead, and their links with them.
+ * Every change is reported like a validation issue. Relations are
+ * normalized separately (see utils/relations).
+ */
+export const applyOntology = (data: GraphData, ontology: Ontology): { data: GraphData; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const groupLabels = ontology.groups.map(g => g.label);
+  const fallback = ontology.groups.find(g => g.label === ontology.fallbackGroup) || ontology.groups[0];
+  const dropped = new Set<string>();
+
+  const nodes = data.nodes.flatMap((node, idx) => {
+    const path = `nodes[${idx}]`;
+    let group = ontology.groups.find(g => g.label === resolveTerm(node.groupLabel, groupLabels));
+    if (!group) {
+      if (ontology.strict || !fallback) {
+        issues.push({ path, action: 'rejected', message: `groupLabel ${JSON.stringify(node.groupLabel)} is not in the ontology` });
+        dropped.add(node.id);
+        return [];
+      }
+      group = fallback;
+    }
+    if (group.label !== node.groupLabel) {
+      issues.push({ path: `${path}.groupLabel`, action: 'coerced', message: `${JSON.stringify(node.groupLabel)} mapped to ${group.label}` });
+    }
+
+    let type = node.type;
+    if (group.types.length > 0) {
+      const resolved = resolveTerm(node.type, group.types);
+      if (!resolved && ontology.strict) {
+        issues.push({ path, action: 'rejected', message: `type ${JSON.stringify(node.type)} is not allowed for ${group.label}` });
+        dropped.add(node.id);
+        return [];
+      }
+      type = resolved || group.types[0];
+      if (type !== node.type) issues.push({ path: `${path}.type`, action: 'coerced', message: `${JSON.stringify(node.type)} mapped to ${type}` });
+    }
+    return [{ ...node, groupLabel: group.label, type }];
+  });
+
+  const links = data.links.filter(link => !dropped.has(link.source as string) && !dropped.has(link.target as string));
+
+  return { data: { nodes, links }, issues };
+};
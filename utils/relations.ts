@@ -0,0 +1,133 @@
+
+import { GraphData, Ontology, OptimizedConnection, ValidationIssue } from '../types/prism';
+import { normalizeRelation, resolveTerm } from './ontology';
+
+// --- CANONICAL PREDICATES ---
+// Each predicate with the phrasings models commonly use for it, lower case,
+// auxiliaries ('was', 'is', ...) already stripped. Passive forms such as
+// 'founded by' are deliberately absent: they reverse the link direction.
+
+export const RELATION_SYNONYMS: Record<string, string[]> = {
+  LEADER_OF: ['led', 'leads', 'leader', 'leader of', 'headed', 'heads', 'head of', 'ruled', 'rules', 'ruler of', 'chaired', 'chair of', 'commanded', 'commander of', 'presided over', 'president of', 'ceo of', 'directed', 'director of'],
+  MEMBER_OF: ['member of', 'belongs to', 'belonged to', 'joined', 'affiliated with'],
+  PART_OF: ['part of', 'component of', 'subset of', 'division of', 'branch of', 'contained in'],
+  LOCATED_IN: ['located in', 'based in', 'situated in', 'headquartered in', 'lies in', 'found in'],
+  WORKS_FOR: ['works for', 'worked for', 'employed by', 'employee of', 'works at', 'worked at'],
+  FOUNDED: ['founded', 'cofounded', 'co founded', 'founder of', 'co founder of', 'established', 'set up'],
+  CREATED: ['created', 'creator of', 'authored', 'author of', 'wrote', 'designed', 'built', 'developed', 'produced'],
+  INVENTED: ['invented', 'inventor of', 'pioneered', 'discovered'],
+  INFLUENCED: ['influenced', 'inspired', 'shaped', 'affected', 'impacted'],
+  CAUSED: ['caused', 'led to', 'resulted in', 'triggered', 'sparked', 'brought about'],
+  PARTICIPATED_IN: ['participated in', 'took part in', 'fought in', 'involved in', 'attended', 'competed in'],
+  OPPOSED: ['opposed', 'opposes', 'rival of', 'enemy of', 'fought against', 'competed with', 'competitor of'],
+  ALLIED_WITH: ['allied with', 'ally of', 'partnered with', 'partner of', 'collaborated with', 'cooperated with'],
+  SUCCEEDED: ['succeeded', 'successor of', 'successor to', 'replaced'],
+  PRECEDED: ['preceded', 'predecessor of', 'predecessor to'],
+  OWNS: ['owns', 'owned', 'owner of', 'acquired', 'bought'],
+  FUNDED: ['funded', 'financed', 'sponsored', 'backed', 'invested in'],
+  USES: ['uses', 'used', 'utilizes', 'relies on', 'depends on'],
+  RELATED_TO: ['related to', 'associated with', 'connected to', 'linked to', 'relates to']
+};
+
+export const CANONICAL_PREDICATES = Object.keys(RELATION_SYNONYMS);
+
+const GENERIC_RELATION = 'RELATED_TO'; // Lenient fallback for off-vocabulary relations
+const MISSPELLING_THRESHOLD = 0.85; // Strict: 'FOUNDED_BY' must not read as 'FOUNDED'
+
+const SYNONYM_INDEX = new Map<string, string>(
+  Object.entries(RELATION_SYNONYMS).flatMap(([predicate, phrases]) => phrases.map(phrase => [phrase, predicate] as [string, string]))
+);
+
+const AUXILIARIES = /^(?:was|is|were|are|has been|have been|had been|has|have|had|became|becomes|the|a|an)\s+/;
+
+const toPhrase = (relation: string) => {
+  let phrase = relation.toLowerCase().replace(/[_-]+/g, ' ').replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+  while (AUXILIARIES.test(phrase)) phrase = phrase.replace(AUXILIARIES, '');
+  return phrase;
+};
+
+/** Predicates relations are normalized to: the ontology's own, or the built-in set. */
+export const relationVocabulary = (ontology: Ontology): string[] =>
+  ontology.relations.length > 0 ? ontology.relations : CANONICAL_PREDICATES;
+
+/**
+ * Maps free-text relation wording onto a vocabulary predicate: the
+ * predicate itself, a known synonym, or a near-spelling. Undefined when
+ * the wording is unknown.
+ */
+export const canonicalizeRelation = (relation: string, vocabulary: string[]): string | undefined => {
+  const key = normalizeRelation(relation);
+  if (vocabulary.includes(key)) return key;
+
+  const phrase = toPhrase(relation);
+  const synonym = SYNONYM_INDEX.get(phrase);
+  if (synonym && vocabulary.includes(synonym)) return synonym;
+
+  return resolveTerm(normalizeRelation(phrase) || key, vocabulary, MISSPELLING_THRESHOLD);
+};
+
+/**
+ * Relation wordings the synonym table cannot place, each with one link
+ * as context for a classifier.
+ */
+export const findUnresolvedRelations = (links: OptimizedConnection[], vocabulary: string[]): OptimizedConnection[] => {
+  const unresolved = new Map<string, OptimizedConnection>();
+  links.forEach(link => {
+    if (!unresolved.has(link.relation) && !canonicalizeRelation(link.relation, vocabulary)) unresolved.set(link.relation, link);
+  });
+  return Array.from(unresolved.values());
+};
+
+/**
+ * Rewrites every relation to its canonical predicate and keeps the model's
+ * own wording as `relationLabel` for display. `classified` holds classifier
+ * answers for wordings the synonym table did not know.
+ * Without an ontology vocabulary, unknown wordings stay as UPPER_SNAKE_CASE
+ * predicates of their own; with one, they fall back to RELATED_TO, or are
+ * dropped in strict mode.
+ */
+export const normalizeRelations = (
+  data: GraphData,
+  ontology: Ontology,
+  classified: Record<string, string> = {}
+): { data: GraphData; issues: ValidationIssue[] } => {
+  const vocabulary = relationVocabulary(ontology);
+  const constrained = ontology.relations.length > 0;
+  const issues: ValidationIssue[] = [];
+
+  const links = data.links.flatMap((link, idx) => {
+    const original = link.relationLabel || link.relation;
+    let relation = canonicalizeRelation(link.relation, vocabulary) || classified[link.relation];
+
+    if (!relation) {
+      if (!constrained) {
+        relation = normalizeRelation(link.relation) || GENERIC_RELATION;
+      } else if (ontology.strict) {
+        issues.push({ path: `links[${idx}]`, action: 'rejected', message: `relation ${JSON.stringify(original)} is not in the vocabulary` });
+        return [];
+      } else {
+        relation = GENERIC_RELATION;
+        issues.push({ path: `links[${idx}].relation`, action: 'coerced', message: `${JSON.stringify(original)} mapped to ${relation}` });
+      }
+    }
+
+    const { relationLabel, ...rest } = link;
+    return [{ ...rest, relation, ...(original.trim() !== relation ? { relationLabel: original.trim() } : {}) }];
+  });
+
+  return { data: { nodes: data.nodes, links }, issues };
+};
+
+/**
+ * A relation typed by hand: the canonical predicate when the wording is
+ * known, otherwise a predicate of its own. The user is not held to a strict
+ * vocabulary the way a model is.
+ */
+export const manualRelation = (input: string, ontology: Ontology): Pick<OptimizedConnection, 'relation' | 'relationLabel'> => {
+  const wording = input.trim();
+  const relation = canonicalizeRelation(wording, relationVocabulary(ontology)) || normalizeRelation(wording) || GENERIC_RELATION;
+  return wording && wording !== relation ? { relation, relationLabel: wording } : { relation };
+};
+
+/** What to show for a relation: the model's wording when there was one. */
+export const displayRelation = (link: OptimizedConnection) => link.relationLabel || link.relation;
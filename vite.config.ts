@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LOCAL_AI_BASE_URL': JSON.stringify(env.LOCAL_AI_BASE_URL),
+        'process.env.LOCAL_AI_API_KEY': JSON.stringify(env.LOCAL_AI_API_KEY)
       },
       resolve: {
         alias: {